@@ -62,9 +62,8 @@ export function SubPathArraysExample() {
       tags: ['new'],
     };
 
-    // Add new todo to the array
-    const todos = [...watcher.getPath('todos'), newTodo];
-    watcher.setPath('todos', todos);
+    // Add new todo to the end of the array, existing rows don't re-render
+    watcher.pushPath('todos', newTodo);
 
     // Increment nextId
     watcher.setPath('nextId', watcher.getPath('nextId') + 1);
@@ -84,21 +83,13 @@ export function SubPathArraysExample() {
       return;
     }
 
-    const currentTags = watcher.getPath(`todos.${todoIndex}.tags`);
-    const updatedTags = [...currentTags, newTag];
-
     // Update tags array for the specific todo
-    watcher.setPath(`todos.${todoIndex}.tags`, updatedTags);
+    watcher.pushPath(`todos.${todoIndex}.tags`, newTag);
   };
 
   const removeTag = (todoIndex: number, tagIndex: number) => {
-    const currentTags = watcher.getPath(`todos.${todoIndex}.tags`);
-    const updatedTags = currentTags.filter(
-      (_: string, i: number) => i !== tagIndex
-    );
-
     // Update tags array for the specific todo
-    watcher.setPath(`todos.${todoIndex}.tags`, updatedTags);
+    watcher.removeAtPath(`todos.${todoIndex}.tags`, tagIndex);
   };
 
   const replaceTodo = (index: number, newText: string) => {
@@ -107,9 +98,14 @@ export function SubPathArraysExample() {
   };
 
   const deleteTodo = (index: number) => {
-    const todos = watcher.getPath('todos');
-    const updatedTodos = todos.filter((_: TodoItem, i: number) => i !== index);
-    watcher.setPath('todos', updatedTodos);
+    // only the todos after index shift, so only they re-render
+    watcher.removeAtPath('todos', index);
+  };
+
+  const moveTodoUp = (index: number) => {
+    if (index > 0) {
+      watcher.movePath('todos', index, index - 1);
+    }
   };
 
   const resetState = () => {
@@ -148,6 +144,7 @@ export function SubPathArraysExample() {
         onRemoveTag={removeTag}
         onReplace={replaceTodo}
         onDelete={deleteTodo}
+        onMoveUp={moveTodoUp}
       />
 
       <h3>Array Path Watching</h3>
@@ -190,6 +187,7 @@ const TodoList = ({
   onRemoveTag,
   onReplace,
   onDelete,
+  onMoveUp,
 }: {
   watcher: WatcherMap<State>;
   onToggle: (index: number) => void;
@@ -197,6 +195,7 @@ const TodoList = ({
   onRemoveTag: (todoIndex: number, tagIndex: number) => void;
   onReplace: (index: number, newText: string) => void;
   onDelete: (index: number) => void;
+  onMoveUp: (index: number) => void;
 }) => {
   const todos = watcher.usePath('todos');
   const filter = watcher.usePath('filter');
@@ -281,6 +280,13 @@ const TodoList = ({
                   +
                 </button>
               </div>
+              <button
+                className={classes.deleteButton}
+                onClick={() => onMoveUp(originalIndex)}
+                title="Move todo up"
+              >
+                ⬆️
+              </button>
               <button
                 className={classes.deleteButton}
                 onClick={() => onDelete(originalIndex)}
@@ -1,4 +1,10 @@
-import { watcherStore } from '../../../src';
+import {
+  connectDevtools,
+  createEntityAdapter,
+  syncAcrossTabs,
+  watcherStore,
+  type EntityState,
+} from '../../../src';
 
 export interface User {
   id: number;
@@ -14,14 +20,13 @@ export interface AppState {
   sidebarOpen: boolean;
   users: {
     lastFetched: string | null;
-    data: {
-      id: number;
-      name: string;
-      email: string;
-    }[];
+    data: EntityState<User>;
   };
 }
 
+// Users are stored by id, so a row only re-renders when its own user changes
+const userAdapter = createEntityAdapter<User>();
+
 /**
  * Global application store - single source of truth for entire app state
  * Demonstrates how WatcherStore can manage authentication, UI state, and data
@@ -31,10 +36,25 @@ export const appStore = watcherStore<AppState>({
   sidebarOpen: false,
   users: {
     lastFetched: null,
-    data: [],
+    data: userAdapter.getInitialState(),
   },
 });
 
+export const users = userAdapter.bind(appStore, 'users.data');
+
+// Load users when the first component using them mounts, not on app start
+appStore.onPathMount('users', () => {
+  if (!appStore.getPath('users.lastFetched')) {
+    fetchUsers();
+  }
+});
+
+// Logging in or out in one tab applies to every open tab
+syncAcrossTabs(appStore, { channel: 'appStore', paths: ['auth'] });
+
+// Inspect and time-travel the store with the Redux DevTools extension
+connectDevtools(appStore, { name: 'appStore' });
+
 // Global authentication actions
 export const login = (email: string, password: string) => {
   // Simulate login logic
@@ -58,9 +78,9 @@ export const toggleSidebar = () => {
 
 export const fetchUsers = () => {
   // Simulate API call
-  appStore.setPath('users', {
-    lastFetched: new Date().toISOString(),
-    data: [
+  appStore.batch(() => {
+    appStore.setPath('users.lastFetched', new Date().toISOString());
+    users.setAll([
       {
         id: 9,
         name: 'John Doe',
@@ -81,17 +101,13 @@ export const fetchUsers = () => {
         name: 'Sarah Wilson',
         email: 'swilson@example.com',
       },
-    ],
+    ]);
   });
 };
 
-// @todo convert this into a computed/derived store
-export const getCurrentUser = (): User | null => {
-  const currentUserId = appStore.usePath('auth.userId');
-  console.log('currentUserId: ', currentUserId);
-  const users = appStore.usePath('users.data') as User[];
-
-  if (!currentUserId) return null;
-
-  return users.find(user => user.id === currentUserId) || null;
-};
+// re-renders only when the logged in user changes
+export const getCurrentUser = (): User | null =>
+  appStore.useSelector(state => {
+    const userId = state.auth?.userId;
+    return userId ? (state.users.data.entities[userId] ?? null) : null;
+  });
@@ -2,10 +2,9 @@ import classes from './usersPage.module.css';
 import { RerenderIndicator } from '../../../components/RerenderIndicator/RerenderIndicator';
 import { RefreshIcon } from '../../../components/icons/Refresh';
 import { UsersTable } from './UsersTable';
-import { appStore, fetchUsers, User } from '../appStore';
+import { appStore, fetchUsers } from '../appStore';
 
 export const UsersPage = () => {
-  const users = appStore.usePath('users.data') as User[];
   const lastFetched = appStore.usePath('users.lastFetched');
 
   return (
@@ -1,9 +1,11 @@
 import classes from './usersTable.module.css';
 import { RerenderIndicator } from '../../../components/RerenderIndicator/RerenderIndicator';
-import { appStore, User } from '../appStore';
+import type { EntityId } from '../../../../src';
+import { users } from '../appStore';
 
 export const UsersTable = () => {
-  const users = appStore.usePath('users.data') as User[];
+  // only re-renders when a user is added, removed or reordered
+  const ids = users.useIds();
   return (
     <RerenderIndicator>
       <div className={classes.tableContainer}>
@@ -16,12 +18,8 @@ export const UsersTable = () => {
             </tr>
           </thead>
           <tbody>
-            {users.map(user => (
-              <tr key={user.id} className={classes.userRow}>
-                <td>{user.id}</td>
-                <td>{user.name}</td>
-                <td>{user.email}</td>
-              </tr>
+            {ids.map(id => (
+              <UserRow key={id} id={id} />
             ))}
           </tbody>
         </table>
@@ -29,3 +27,17 @@ export const UsersTable = () => {
     </RerenderIndicator>
   );
 };
+
+const UserRow = ({ id }: { id: EntityId }) => {
+  // only re-renders when this user changes
+  const user = users.useEntity(id);
+  if (!user) return null;
+
+  return (
+    <tr className={classes.userRow}>
+      <td>{user.id}</td>
+      <td>{user.name}</td>
+      <td>{user.email}</td>
+    </tr>
+  );
+};
@@ -0,0 +1,235 @@
+import { isShallowEqual } from './object.js';
+import {
+  getDependencyValue,
+  getPathValue,
+  subscribeToDependency,
+} from './shared.js';
+import type { ComputedStoreDependency } from './computedStore.js';
+import type { WatcherComputed } from './useComputed.js';
+import { watcherStore } from './watcherStore.js';
+
+export type AsyncComputedStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * The state of an async computed store. `data` keeps the last successful
+ * result while a new run is loading, or after it fails.
+ */
+export type AsyncComputedState<T> = {
+  status: AsyncComputedStatus;
+  data: T | undefined;
+  error: unknown;
+};
+
+export interface AsyncComputedStore<T>
+  extends WatcherComputed<AsyncComputedState<T>> {
+  /**
+   * useSuspense returns `data` for React Suspense. Until a run succeeds the
+   * component suspends, so the nearest <Suspense> boundary shows its
+   * fallback, and a failed run throws its error to the error boundary.
+   *
+   * Starts a run if the store isn't mounted yet, as a suspended component
+   * doesn't subscribe until it renders
+   */
+  useSuspense: () => T;
+}
+
+export interface AsyncComputedOptions {
+  /**
+   * wait this many ms after the last dependency change before running
+   * computeFn. The first run is never debounced
+   */
+  debounce?: number;
+}
+
+/**
+ * Read-only derived store, like computedStore, for an async computeFn.
+ * `status`, `data` and `error` are watchable paths.
+ *
+ * When the dependencies change, the in-flight run is aborted through its
+ * `signal`, and its result is ignored even if it settles.
+ *
+ * Reads are lazy: getState starts a run if the dependencies changed since
+ * the last one. Dependency subscriptions are only active while the store has
+ * live subscribers, and unmounting aborts the in-flight run.
+ *
+ * @example
+ * const results = asyncComputedStore(
+ *   { watcher: searchStore, path: 'query' },
+ *   async (query, { signal }) => {
+ *     const response = await fetch(`/search?q=${query}`, { signal });
+ *     return response.json();
+ *   },
+ *   { debounce: 300 }
+ * );
+ *
+ * // Results.tsx
+ * const status = results.usePath('status');
+ * const data = results.usePath('data');
+ */
+export const asyncComputedStore = <T,>(
+  dependency: ComputedStoreDependency | ComputedStoreDependency[],
+  computeFn: (
+    value: any | any[],
+    context: { signal: AbortSignal }
+  ) => Promise<T>,
+  options: AsyncComputedOptions = {}
+): AsyncComputedStore<T> => {
+  const store = watcherStore<AsyncComputedState<T>>({
+    status: 'idle',
+    data: undefined,
+    error: undefined,
+  });
+  let mounted = false;
+  // the dependency values of the latest run, in-flight or settled
+  let runValues: unknown;
+  let hasRun = false;
+  let controller: AbortController | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  // resolves when the current run settles or is cancelled, for suspended
+  // components to wait on. Superseded runs don't resolve it
+  let pending: { promise: Promise<void>; resolve: () => void } | null = null;
+
+  // --- helper fns ---
+
+  const cancel = () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+    if (controller) {
+      controller.abort();
+      controller = null;
+      // the aborted run never settles, so run again next time
+      hasRun = false;
+    }
+    // wake suspended components, which would otherwise wait on the cancelled
+    // run forever. Their retry reads the state, which starts a new run
+    pending?.resolve();
+    pending = null;
+  };
+
+  const settle = (
+    run: AbortController,
+    next: Partial<AsyncComputedState<T>>
+  ) => {
+    if (controller !== run) {
+      return;
+    }
+    controller = null;
+    store.setState({ ...store.getState(), ...next });
+    pending?.resolve();
+    pending = null;
+  };
+
+  const run = (values: unknown) => {
+    cancel();
+    const current = new AbortController();
+    controller = current;
+    runValues = values;
+    hasRun = true;
+
+    store.setPath('status', 'loading');
+    // an async fn, so a computeFn which throws synchronously rejects instead
+    (async () => computeFn(values, { signal: current.signal }))().then(
+      data => settle(current, { status: 'success', data, error: undefined }),
+      error => settle(current, { status: 'error', error })
+    );
+  };
+
+  const hasChanged = (values: unknown) =>
+    !hasRun || !isShallowEqual(runValues, values);
+
+  const refresh = () => {
+    const values = getDependencyValue(dependency);
+    if (hasChanged(values)) {
+      run(values);
+    }
+  };
+
+  const onDependencyChange = () => {
+    const values = getDependencyValue(dependency);
+    if (!hasChanged(values)) {
+      return;
+    }
+    if (!options.debounce) {
+      run(values);
+      return;
+    }
+
+    cancel();
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      run(getDependencyValue(dependency));
+    }, options.debounce);
+  };
+
+  store.onMount(() => {
+    mounted = true;
+    refresh();
+    const unsubscribeDependency = subscribeToDependency(
+      dependency,
+      onDependencyChange
+    );
+
+    return () => {
+      mounted = false;
+      unsubscribeDependency();
+      cancel();
+    };
+  });
+
+  const getState = () => {
+    if (!mounted) {
+      refresh();
+    }
+
+    return store.getState();
+  };
+
+  const getPath = (path: string): any => getPathValue(getState(), path);
+
+  const getPending = () => {
+    if (!pending) {
+      let resolve!: () => void;
+      const promise = new Promise<void>(res => {
+        resolve = res;
+      });
+      pending = { promise, resolve };
+    }
+    return pending.promise;
+  };
+
+  const useSuspense = () => {
+    // read first, which starts a run if nothing is subscribed yet
+    getState();
+    const state = store.useState();
+
+    if (state.status === 'success') {
+      return state.data as T;
+    }
+    if (state.status === 'error') {
+      throw state.error;
+    }
+    throw getPending();
+  };
+
+  return {
+    getState,
+    getPath,
+    useState: store.useState,
+    // the state's paths are typed, WatcherComputed's are plain strings
+    usePath: store.usePath as WatcherComputed<any>['usePath'],
+    // the state is never a promise itself, useSuspense reads its data
+    useStateSuspense: store.useState,
+    usePathSuspense:
+      store.usePathSuspense as WatcherComputed<any>['usePathSuspense'],
+    watchState: store.watchState,
+    watchPath: store.watchPath as WatcherComputed<any>['watchPath'],
+    subscribe: store.subscribe as WatcherComputed<any>['subscribe'],
+    useSuspense,
+    // internal fns, do not call directly
+    __addSubscriber__: (fn: Function, path?: string) =>
+      store.__addSubscriber__(fn, path as never),
+    __removeSubscriber__: store.__removeSubscriber__,
+  };
+};
@@ -0,0 +1,184 @@
+import type { WatcherChange } from './storeCore.js';
+import type { WatcherCore } from './watcherBase.js';
+
+export type DevtoolsAction = {
+  /** eg. 'setPath todos.0.completed', 'clearPath filter', 'setState', 'batch' */
+  type: string;
+  [key: string]: any;
+};
+
+/**
+ * A message sent by the Redux DevTools extension. `state` is the JSON of the
+ * state the user jumped to.
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: any;
+  state?: string;
+};
+
+/**
+ * The part of the Redux DevTools extension connection we use, as returned by
+ * `window.__REDUX_DEVTOOLS_EXTENSION__.connect()`.
+ */
+export interface DevtoolsConnection {
+  init: (state: any) => void;
+  send: (action: DevtoolsAction, state: any) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+  unsubscribe?: () => void;
+}
+
+declare global {
+  /** set by the Redux DevTools extension, when it's installed */
+  var __REDUX_DEVTOOLS_EXTENSION__:
+    | { connect: (options: { name: string }) => DevtoolsConnection }
+    | undefined;
+}
+
+export interface DevtoolsOptions {
+  /** the instance name shown in the extension. Defaults to 'watcherStore' */
+  name?: string;
+  /**
+   * defaults to connecting to the browser extension. Inject a connection to
+   * use a remote devtools server, or to test without the extension.
+   */
+  connection?: DevtoolsConnection;
+}
+
+const toAction = (change: WatcherChange): DevtoolsAction => {
+  switch (change.type) {
+    case 'setPath':
+      return {
+        type: `setPath ${change.path}`,
+        path: change.path,
+        value: change.nextValue,
+      };
+    case 'clearPath':
+      return { type: `clearPath ${change.path}`, path: change.path };
+    case 'setState':
+      return { type: 'setState', state: change.nextValue };
+  }
+};
+
+/** the state to restore for an IMPORT_STATE message */
+const getImportedState = (message: DevtoolsMessage) => {
+  const { computedStates, currentStateIndex } =
+    message.payload?.nextLiftedState ?? {};
+  if (!Array.isArray(computedStates) || computedStates.length === 0) {
+    return undefined;
+  }
+
+  const index = currentStateIndex ?? computedStates.length - 1;
+  return computedStates[index]?.state;
+};
+
+/**
+ * Show every change to a store in the Redux DevTools extension, and let the
+ * extension time-travel the store.
+ *
+ * Each setPath, clearPath and setState is sent as an action named after the
+ * method and path, eg. 'setPath todos.0.completed'. A batch is sent as a
+ * single 'batch' action listing its changes. Jumping to a past state,
+ * importing a state file, reset and rollback call back into setState.
+ *
+ * Does nothing if the extension isn't installed and no connection is given.
+ *
+ * @returns a function which disconnects from the devtools
+ *
+ * @example
+ * if (import.meta.env.DEV) {
+ *   connectDevtools(appStore, { name: 'appStore' });
+ * }
+ */
+export const connectDevtools = <T extends Record<string, any>>(
+  store: WatcherCore<T>,
+  options: DevtoolsOptions = {}
+) => {
+  const name = options.name ?? 'watcherStore';
+  const connection =
+    options.connection ??
+    globalThis.__REDUX_DEVTOOLS_EXTENSION__?.connect({ name });
+
+  if (!connection) {
+    return () => {};
+  }
+
+  const initialState = store.getState();
+  // tags the devtools' writes to the store, so we don't send them back, even
+  // when an open batch holds them until later
+  const origin = Symbol('connectDevtools');
+
+  // --- helper fns ---
+
+  const travelTo = (state: T | undefined) => {
+    if (state === undefined) {
+      return;
+    }
+
+    store.withOrigin(origin, () => store.setState(state));
+  };
+
+  const parseState = (message: DevtoolsMessage): T | undefined => {
+    try {
+      return message.state === undefined
+        ? undefined
+        : JSON.parse(message.state);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const onMessage = (message: DevtoolsMessage) => {
+    if (message.type !== 'DISPATCH') {
+      return;
+    }
+
+    switch (message.payload?.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        travelTo(parseState(message));
+        break;
+      case 'IMPORT_STATE':
+        travelTo(getImportedState(message));
+        break;
+      case 'RESET':
+        travelTo(initialState);
+        connection.init(store.getState());
+        break;
+      case 'ROLLBACK':
+        travelTo(parseState(message));
+        connection.init(store.getState());
+        break;
+      case 'COMMIT':
+        connection.init(store.getState());
+        break;
+    }
+  };
+
+  connection.init(initialState);
+
+  const unsubscribeCommit = store.onCommit(commit => {
+    const { batched, state } = commit;
+    const changes = commit.changes.filter(change => change.origin !== origin);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const action: DevtoolsAction = batched
+      ? { type: 'batch', changes: changes.map(toAction) }
+      : toAction(changes[0]);
+    connection.send(action, state);
+  });
+
+  const unsubscribeConnection = connection.subscribe(onMessage);
+
+  return () => {
+    unsubscribeCommit();
+    if (typeof unsubscribeConnection === 'function') {
+      unsubscribeConnection();
+    }
+    connection.unsubscribe?.();
+  };
+};
@@ -0,0 +1,56 @@
+// use-watcher-map/core - the stores and utilities which don't import React,
+// for Node, workers and tests. The main entry adds the React hooks.
+
+export { vanillaStore } from './vanillaStore.js';
+export type { MountFn, VanillaStore } from './vanillaStore.js';
+export type { SubscribeOptions, WatcherCore } from './watcherBase.js';
+export type {
+  WatcherChange,
+  WatcherCommit,
+  WatcherOptions,
+} from './storeCore.js';
+export type { WatcherMiddleware, WatcherWrite } from './middleware.js';
+
+export { vanillaComputedStore } from './vanillaComputedStore.js';
+export type {
+  ComputedOptions,
+  VanillaComputed,
+  VanillaComputedDependency,
+} from './vanillaComputedStore.js';
+
+export {
+  getDeepPath,
+  setDeepPathClone,
+  deleteDeepPathClone,
+  isDeepEqual,
+  isShallowEqual,
+} from './object.js';
+
+export {
+  createBroadcastChannelTransport,
+  syncAcrossTabs,
+} from './syncAcrossTabs.js';
+export type {
+  SyncMessage,
+  SyncOptions,
+  SyncTransport,
+  SyncUpdate,
+} from './syncAcrossTabs.js';
+
+export { connectDevtools } from './connectDevtools.js';
+export type {
+  DevtoolsAction,
+  DevtoolsConnection,
+  DevtoolsMessage,
+  DevtoolsOptions,
+} from './connectDevtools.js';
+
+export { fromJsonPointer, toJsonPointer } from './jsonPatch.js';
+export type { JsonPatchOperation } from './jsonPatch.js';
+
+export type {
+  PathOf,
+  PathPatternOf,
+  TypeAtPath,
+  TypesAtPaths,
+} from './pathOf.js';
@@ -0,0 +1,272 @@
+import { useMemo } from 'react';
+import { isShallowEqual } from './object.js';
+import type { PathOf } from './pathOf.js';
+import type { WatcherBase } from './watcherBase.js';
+
+export type EntityId = string | number;
+
+/**
+ * A normalized collection. `ids` holds the order, `entities` looks up each
+ * entity by id.
+ */
+export type EntityState<E> = {
+  ids: EntityId[];
+  entities: Record<EntityId, E>;
+};
+
+export interface EntityAdapterOptions<E> {
+  /**
+   * get an entity's id. Defaults to `entity.id`. Ids are path segments, so
+   * can't contain a "."
+   */
+  selectId?: (entity: E) => EntityId;
+  /** keep `ids` sorted by this comparer. Defaults to insertion order */
+  sortComparer?: (a: E, b: E) => number;
+}
+
+/**
+ * A collection bound to a path in a store. Each write only touches the
+ * `entities.<id>` paths it changes, plus `ids` when the order changes.
+ */
+export interface EntityCollection<E> {
+  /** add an entity, ignored if its id already exists */
+  addOne: (entity: E) => void;
+  /** add entities, ignoring any whose id already exists */
+  addMany: (entities: E[]) => void;
+  /** add an entity, or shallow merge it into the existing one */
+  upsertOne: (entity: E) => void;
+  /** add entities, or shallow merge them into the existing ones */
+  upsertMany: (entities: E[]) => void;
+  /** shallow merge changes into an entity, ignored if it doesn't exist */
+  updateOne: (id: EntityId, changes: Partial<E>) => void;
+  /** remove an entity, ignored if it doesn't exist */
+  removeOne: (id: EntityId) => void;
+  /** replace every entity. Entities which keep their reference aren't touched */
+  setAll: (entities: E[]) => void;
+  /** get an entity by id */
+  getEntity: (id: EntityId) => E | undefined;
+  /** get the ids, in order */
+  getIds: () => EntityId[];
+  /** get every entity, in order */
+  getAll: () => E[];
+  /** re-render the component when this entity changes */
+  useEntity: (id: EntityId) => E | undefined;
+  /** re-render the component when an entity is added, removed or reordered */
+  useIds: () => EntityId[];
+  /** re-render the component when any entity changes */
+  useAll: () => E[];
+}
+
+export interface EntityAdapter<E> {
+  /** an EntityState to use as the default value in a store */
+  getInitialState: (entities?: E[]) => EntityState<E>;
+  /** manage the EntityState at `path` in a store */
+  bind: <T extends Record<string, any>>(
+    store: WatcherBase<T>,
+    path: PathOf<T>
+  ) => EntityCollection<E>;
+}
+
+// a stable empty list, so hooks don't see a new array on each render
+const noIds: EntityId[] = [];
+
+const hasId = (entities: Record<EntityId, unknown>, id: EntityId) =>
+  Object.prototype.hasOwnProperty.call(entities, id);
+
+// an id is a path segment, eg. `users.entities.9`, so it can't contain a "."
+const checkId = (id: EntityId) => {
+  if (`${id}`.includes('.')) {
+    throw new Error(
+      `Cannot use entity id "${id}", ids containing "." are not supported`
+    );
+  }
+  return id;
+};
+
+/**
+ * Store a collection normalized as `{ ids, entities }`, so a component can
+ * subscribe to a single entity by id, eg. `usePath('users.entities.9')`,
+ * rather than to the whole list.
+ *
+ * @example
+ * const userAdapter = createEntityAdapter<User>({
+ *   sortComparer: (a, b) => a.name.localeCompare(b.name),
+ * });
+ * const appStore = watcherStore({ users: userAdapter.getInitialState() });
+ * const users = userAdapter.bind(appStore, 'users');
+ *
+ * users.addOne({ id: 9, name: 'John Doe' });
+ * users.updateOne(9, { name: 'Jane Doe' }); // only users.entities.9 notifies
+ *
+ * // UserRow.tsx
+ * const user = users.useEntity(id);
+ */
+export const createEntityAdapter = <E>(
+  options: EntityAdapterOptions<E> = {}
+): EntityAdapter<E> => {
+  const selectId = options.selectId ?? ((entity: any) => entity.id);
+  const { sortComparer } = options;
+
+  // --- helper fns ---
+
+  const sortIds = (ids: EntityId[], entities: Record<EntityId, E>) =>
+    sortComparer
+      ? [...ids].sort((a, b) => sortComparer(entities[a], entities[b]))
+      : ids;
+
+  const getInitialState = (entities: E[] = []): EntityState<E> => {
+    const state: EntityState<E> = { ids: [], entities: {} };
+    for (const entity of entities) {
+      const id = checkId(selectId(entity));
+      if (!hasId(state.entities, id)) {
+        state.ids.push(id);
+      }
+      state.entities[id] = entity;
+    }
+    state.ids = sortIds(state.ids, state.entities);
+    return state;
+  };
+
+  const bind = <T extends Record<string, any>>(
+    store: WatcherBase<T>,
+    path: PathOf<T>
+  ): EntityCollection<E> => {
+    // the collection's paths aren't known to the store's types
+    const getPath = (subPath: string): any =>
+      store.getPath(`${path}.${subPath}` as never);
+    const setPath = (subPath: string, value: unknown) =>
+      store.setPath(`${path}.${subPath}` as never, value as never);
+    const usePath = (subPath: string): any =>
+      store.usePath(`${path}.${subPath}` as never);
+    const getEntityPath = (id: EntityId) => `entities.${checkId(id)}`;
+
+    const getIds = (): EntityId[] => getPath('ids') ?? noIds;
+    const getEntities = (): Record<EntityId, E> => getPath('entities') ?? {};
+    const getEntity = (id: EntityId): E | undefined => getEntities()[id];
+    const getAll = () => {
+      const entities = getEntities();
+      return getIds().map(id => entities[id]);
+    };
+
+    /**
+     * write the ids if they changed. Runs after the entities are written, so
+     * sorting sees their new values
+     */
+    const writeIds = (ids: EntityId[]) => {
+      const nextIds = sortIds(ids, getEntities());
+      if (!isShallowEqual(getIds(), nextIds)) {
+        setPath('ids', nextIds);
+      }
+    };
+
+    const writeEntity = (id: EntityId, entity: E) => {
+      if (getEntity(id) !== entity) {
+        setPath(getEntityPath(id), entity);
+      }
+    };
+
+    // check every id before writing, so a bad one doesn't leave the others
+    // half written
+    const getEntityIds = (entities: E[]) =>
+      entities.map(entity => checkId(selectId(entity)));
+
+    const addMany = (entities: E[]) => {
+      const entityIds = getEntityIds(entities);
+      store.batch(() => {
+        const ids = [...getIds()];
+        for (const [index, entity] of entities.entries()) {
+          const id = entityIds[index];
+          if (!hasId(getEntities(), id)) {
+            writeEntity(id, entity);
+            ids.push(id);
+          }
+        }
+        writeIds(ids);
+      });
+    };
+
+    const upsertMany = (entities: E[]) => {
+      const entityIds = getEntityIds(entities);
+      store.batch(() => {
+        const ids = [...getIds()];
+        for (const [index, entity] of entities.entries()) {
+          const id = entityIds[index];
+          if (hasId(getEntities(), id)) {
+            writeEntity(id, { ...getEntity(id), ...entity });
+          } else {
+            writeEntity(id, entity);
+            ids.push(id);
+          }
+        }
+        writeIds(ids);
+      });
+    };
+
+    const updateOne = (id: EntityId, changes: Partial<E>) => {
+      if (!hasId(getEntities(), id)) {
+        return;
+      }
+
+      store.batch(() => {
+        writeEntity(id, { ...getEntity(id), ...changes } as E);
+        writeIds(getIds());
+      });
+    };
+
+    const removeOne = (id: EntityId) => {
+      if (!hasId(getEntities(), id)) {
+        return;
+      }
+
+      store.batch(() => {
+        store.clearPath(`${path}.${getEntityPath(id)}` as never);
+        // ids may be numbers, while entities keys are always strings
+        writeIds(getIds().filter(existingId => `${existingId}` !== `${id}`));
+      });
+    };
+
+    const setAll = (entities: E[]) => {
+      const next = getInitialState(entities);
+      store.batch(() => {
+        for (const id of getIds()) {
+          if (!hasId(next.entities, id)) {
+            store.clearPath(`${path}.${getEntityPath(id)}` as never);
+          }
+        }
+        for (const id of next.ids) {
+          writeEntity(id, next.entities[id]);
+        }
+        writeIds(next.ids);
+      });
+    };
+
+    const useEntity = (id: EntityId): E | undefined =>
+      usePath(getEntityPath(id));
+
+    const useIds = (): EntityId[] => usePath('ids') ?? noIds;
+
+    const useAll = () => {
+      const ids = useIds();
+      const entities: Record<EntityId, E> = usePath('entities');
+      return useMemo(() => ids.map(id => entities[id]), [ids, entities]);
+    };
+
+    return {
+      addOne: entity => addMany([entity]),
+      addMany,
+      upsertOne: entity => upsertMany([entity]),
+      upsertMany,
+      updateOne,
+      removeOne,
+      setAll,
+      getEntity,
+      getIds,
+      getAll,
+      useEntity,
+      useIds,
+      useAll,
+    };
+  };
+
+  return { getInitialState, bind };
+};
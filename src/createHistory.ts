@@ -0,0 +1,176 @@
+import { scopeChange } from './shared.js';
+import type { WatcherChange } from './storeCore.js';
+import type { WatcherCore } from './watcherBase.js';
+import { watcherStore, type WatcherStore } from './watcherStore.js';
+
+export interface HistoryOptions {
+  /** the maximum number of undo steps to keep. Defaults to 100 */
+  limit?: number;
+  /**
+   * only record changes under these paths, eg. ['document'] or
+   * ['document.*']. Writes elsewhere (eg. 'sidebarOpen') are never undone.
+   * Defaults to the entire state.
+   */
+  paths?: string[];
+}
+
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+export interface WatcherHistory
+  extends Pick<
+    WatcherStore<HistoryState>,
+    'getState' | 'getPath' | 'useState' | 'usePath' | 'watchState' | 'watchPath'
+  > {
+  /** revert the most recent history step */
+  undo: () => void;
+  /** re-apply the most recently undone history step */
+  redo: () => void;
+  /** forget every undo and redo step */
+  clear: () => void;
+  /** stop recording changes from the store */
+  dispose: () => void;
+}
+
+type HistoryEntry = WatcherChange[];
+
+/**
+ * Record every setState, setPath and clearPath on a store as an undoable
+ * entry. A whole batch() is recorded as a single entry.
+ *
+ * `canUndo` and `canRedo` are watchable, eg. `history.usePath('canUndo')`.
+ *
+ * @example
+ * const editorStore = watcherStore({ document: { title: '' }, sidebarOpen: false });
+ * const history = createHistory(editorStore, { paths: ['document'] });
+ *
+ * editorStore.setPath('document.title', 'Hello');
+ * history.undo(); // document.title is '' again
+ */
+export const createHistory = <T extends Record<string, any>>(
+  store: WatcherCore<T>,
+  options: HistoryOptions = {}
+): WatcherHistory => {
+  const limit = options.limit ?? 100;
+  // 'document.*' and 'document' both mean the document subtree
+  const scopes = options.paths?.map(path => path.replace(/\.\*{1,2}$/, ''));
+  const status = watcherStore<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+  });
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+  // tags the writes of undo/redo, so we don't record them, even when an open
+  // batch holds them until later
+  const origin = Symbol('createHistory');
+
+  // --- helper fns ---
+
+  const updateStatus = () => {
+    const canUndo = past.length > 0;
+    const canRedo = future.length > 0;
+    status.batch(() => {
+      if (status.getPath('canUndo') !== canUndo) {
+        status.setPath('canUndo', canUndo);
+      }
+      if (status.getPath('canRedo') !== canRedo) {
+        status.setPath('canRedo', canRedo);
+      }
+    });
+  };
+
+  const toEntry = (changes: WatcherChange[]): HistoryEntry => {
+    const scoped = scopes
+      ? changes.flatMap(change =>
+          scopes
+            .map(scope => scopeChange(change, scope))
+            .filter((c): c is WatcherChange => c !== null)
+        )
+      : changes;
+
+    return scoped.filter(change => change.prevValue !== change.nextValue);
+  };
+
+  const write = (path: string | null, value: any) => {
+    if (path === null) {
+      store.setState(value);
+    } else if (value === undefined) {
+      store.clearPath(path as never);
+    } else {
+      store.setPath(path as never, value as never);
+    }
+  };
+
+  const apply = (entry: HistoryEntry, direction: 'undo' | 'redo') => {
+    store.withOrigin(origin, () =>
+      store.batch(() => {
+        if (direction === 'undo') {
+          for (let i = entry.length - 1; i >= 0; i--) {
+            write(entry[i].path, entry[i].prevValue);
+          }
+        } else {
+          for (const change of entry) {
+            write(change.path, change.nextValue);
+          }
+        }
+      })
+    );
+  };
+
+  const unsubscribe = store.onCommit(({ changes }) => {
+    const entry = toEntry(changes.filter(change => change.origin !== origin));
+    if (entry.length === 0) {
+      return;
+    }
+
+    past.push(entry);
+    if (past.length > limit) {
+      past.shift();
+    }
+    future = [];
+    updateStatus();
+  });
+
+  const undo = () => {
+    const entry = past.pop();
+    if (!entry) {
+      return;
+    }
+
+    apply(entry, 'undo');
+    future.push(entry);
+    updateStatus();
+  };
+
+  const redo = () => {
+    const entry = future.pop();
+    if (!entry) {
+      return;
+    }
+
+    apply(entry, 'redo');
+    past.push(entry);
+    updateStatus();
+  };
+
+  const clear = () => {
+    past = [];
+    future = [];
+    updateStatus();
+  };
+
+  return {
+    clear,
+    dispose: unsubscribe,
+    getPath: status.getPath,
+    getState: status.getState,
+    redo,
+    undo,
+    usePath: status.usePath,
+    useState: status.useState,
+    watchPath: status.watchPath,
+    watchState: status.watchState,
+  };
+};
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { isShallowEqual } from './object.js';
+import {
+  createPathSnapshot,
+  createPathsSnapshot,
+  createSelectorSnapshot,
+  readSuspenseValue,
+} from './shared.js';
+
+type HookTarget<T> = {
+  getState: () => T;
+  __addSubscriber__: (fn: Function, path?: any) => void;
+  __removeSubscriber__: (fn: Function) => void;
+};
+
+/**
+ * The React binding for a vanilla store: useState, usePath and watch* on top
+ * of its getState and subscribers. Called once per store, not in a component,
+ * or once per useWatcherMap or useComputed, in their useMemo
+ */
+export const createHooks = <T>(store: HookTarget<T>) => {
+  const {
+    getState,
+    __addSubscriber__: addSubscriber,
+    __removeSubscriber__: removeSubscriber,
+  } = store;
+
+  const subscribeState = (fn: Function) => {
+    addSubscriber(fn);
+
+    return () => removeSubscriber(fn);
+  };
+
+  // useSyncExternalStore re-subscribes whenever the subscribe fn identity
+  // changes, which would fire onMount/onUnmount on every render. Cache one
+  // subscribe fn per path so identity is stable across renders of the same
+  // usePath(path) call.
+  const pathSubscribers = new Map<string, (fn: Function) => () => void>();
+  const subscribePathFactory = (path: string) => {
+    let cached = pathSubscribers.get(path);
+    if (!cached) {
+      cached = (fn: Function) => {
+        addSubscriber(fn, path);
+        return () => removeSubscriber(fn);
+      };
+      pathSubscribers.set(path, cached);
+    }
+    return cached;
+  };
+
+  // Cache one getSnapshot fn per path. useSyncExternalStore reads identity to
+  // detect changes; a fresh fn each render forces extra work.
+  const pathGetters = new Map<string, () => any>();
+  const getPathFactory = (path: string) => {
+    let cached = pathGetters.get(path);
+    if (!cached) {
+      cached = createPathSnapshot(getState, path);
+      pathGetters.set(path, cached);
+    }
+    return cached;
+  };
+
+  // do not call setState from within this function or it will cause
+  // an infinite loop
+  const watchState = (fn: Function) =>
+    useEffect(() => {
+      addSubscriber(fn);
+
+      return () => removeSubscriber(fn);
+    }, []);
+
+  const watchPath = (path: string, fn: (value: any) => void) =>
+    useEffect(() => {
+      addSubscriber(fn, path);
+
+      return () => removeSubscriber(fn);
+    }, [path]);
+
+  const useState = () =>
+    useSyncExternalStore<T>(subscribeState, getState, getState);
+
+  const useSelector = <R>(
+    selector: (state: T) => R,
+    isEqual: (prev: R, next: R) => boolean = isShallowEqual
+  ) => {
+    const getSnapshot = useMemo(() => createSelectorSnapshot(getState), []);
+    const getSelection = () => getSnapshot(selector, isEqual);
+    return useSyncExternalStore(subscribeState, getSelection, getSelection);
+  };
+
+  const usePath = (path: string) => {
+    const getPathSnapshot = getPathFactory(path);
+    return useSyncExternalStore(
+      subscribePathFactory(path),
+      getPathSnapshot,
+      getPathSnapshot
+    );
+  };
+
+  const useStateSuspense = (): Awaited<T> => readSuspenseValue(useState());
+
+  const usePathSuspense = (path: string) => readSuspenseValue(usePath(path));
+
+  const usePaths = (paths: readonly string[] | Record<string, string>) => {
+    // paths is usually a new literal each render, so key on its contents
+    const key = JSON.stringify(paths);
+    const [subscribePaths, getPathsSnapshot] = useMemo(
+      () =>
+        [
+          (fn: Function) => {
+            addSubscriber(fn, Object.values(paths));
+            return () => removeSubscriber(fn);
+          },
+          createPathsSnapshot(getState, paths),
+        ] as const,
+      [key]
+    );
+
+    return useSyncExternalStore(
+      subscribePaths,
+      getPathsSnapshot,
+      getPathsSnapshot
+    );
+  };
+
+  return {
+    useState,
+    useStateSuspense,
+    useSelector,
+    usePath,
+    usePathSuspense,
+    usePaths,
+    watchState,
+    watchPath,
+  };
+};
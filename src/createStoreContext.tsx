@@ -0,0 +1,101 @@
+import {
+  createContext,
+  useContext,
+  useLayoutEffect,
+  useRef,
+  useState as useReactState,
+  type ReactNode,
+} from 'react';
+import { isDeepEqual } from './object.js';
+import type { PathPatternOf } from './pathOf.js';
+import type { WatcherStore } from './watcherStore.js';
+
+export interface StoreProviderProps<T extends Record<string, any>> {
+  /**
+   * replaces the new instance's state. When it changes by value, the
+   * instance's state is replaced again
+   */
+  initialState?: T;
+  children?: ReactNode;
+}
+
+export interface StoreContext<T extends Record<string, any>> {
+  /** creates an instance for its subtree, kept until it unmounts */
+  Provider: (props: StoreProviderProps<T>) => ReactNode;
+  /** the instance of the nearest Provider */
+  useStore: () => WatcherStore<T>;
+  /** useState of the nearest Provider's instance */
+  useState: WatcherStore<T>['useState'];
+  /** usePath of the nearest Provider's instance */
+  usePath: WatcherStore<T>['usePath'];
+}
+
+/**
+ * Scope instances of a store to a subtree, eg. one per open document tab,
+ * instead of one per module or passing useWatcherMap down by props. Each
+ * Provider creates its own instance, and the hooks read the nearest one.
+ *
+ * @param create - Creates a new instance, eg. with watcherStore
+ *
+ * @example
+ * export const DocumentStore = createStoreContext(() =>
+ *   watcherStore({ title: '', body: '' })
+ * );
+ *
+ * // Tabs.tsx
+ * <DocumentStore.Provider initialState={tab.document}>
+ *   <Editor />
+ * </DocumentStore.Provider>
+ *
+ * // Editor.tsx
+ * const title = DocumentStore.usePath('title');
+ * const store = DocumentStore.useStore();
+ * store.setPath('title', 'Notes');
+ */
+export const createStoreContext = <T extends Record<string, any>>(
+  create: () => WatcherStore<T>
+): StoreContext<T> => {
+  const Context = createContext<WatcherStore<T> | null>(null);
+
+  const Provider = ({ initialState, children }: StoreProviderProps<T>) => {
+    const [store] = useReactState(() => {
+      const instance = create();
+      if (initialState !== undefined) {
+        instance.setState(initialState);
+      }
+      return instance;
+    });
+    const seeded = useRef(initialState);
+
+    // compared by value, as initialState is usually a new literal each render
+    useLayoutEffect(() => {
+      if (
+        initialState === undefined ||
+        isDeepEqual(seeded.current, initialState)
+      ) {
+        return;
+      }
+      seeded.current = initialState;
+      store.setState(initialState);
+    }, [initialState]);
+
+    return <Context.Provider value={store}>{children}</Context.Provider>;
+  };
+
+  const useStore = () => {
+    const store = useContext(Context);
+    if (!store) {
+      throw new Error(
+        'Cannot use store context, no Provider above this component'
+      );
+    }
+    return store;
+  };
+
+  const useState = () => useStore().useState();
+
+  const usePath = (path: string): any =>
+    useStore().usePath(path as PathPatternOf<T>);
+
+  return { Provider, useStore, useState, usePath };
+};
@@ -1,23 +1,119 @@
-export { useWatcherMap } from './useWatcherMap';
-export type { WatcherMap } from './useWatcherMap';
+export { useWatcherMap } from './useWatcherMap.js';
+export type { WatcherMap } from './useWatcherMap.js';
 
-export { useWatcherPrimitive as useWatcher } from './useWatcherPrimitive';
-export type { WatcherPrimitive } from './useWatcherPrimitive';
+export { useWatcherPrimitive as useWatcher } from './useWatcherPrimitive.js';
+export type { WatcherPrimitive } from './useWatcherPrimitive.js';
 
-export { useComputed } from './useComputed';
-export type { WatcherComputed } from './useComputed';
+export { useComputed } from './useComputed.js';
+export type { ComputedOptions, WatcherComputed } from './useComputed.js';
 
-export { computedStore } from './computedStore';
-export type { ComputedStoreDependency } from './computedStore';
+export { bindComputedStore, computedStore } from './computedStore.js';
+export type { ComputedStoreDependency } from './computedStore.js';
+
+export { asyncComputedStore } from './asyncComputedStore.js';
+export type {
+  AsyncComputedOptions,
+  AsyncComputedState,
+  AsyncComputedStatus,
+  AsyncComputedStore,
+} from './asyncComputedStore.js';
 
 export {
   getDeepPath,
   setDeepPathClone,
   deleteDeepPathClone,
+  isDeepEqual,
   isShallowEqual,
-} from './object';
+} from './object.js';
+
+export { bindStore, watcherStore } from './watcherStore.js';
+export type { MountFn, WatcherStore } from './watcherStore.js';
+export type { SubscribeOptions, WatcherCore } from './watcherBase.js';
+
+export { vanillaStore } from './vanillaStore.js';
+export type { VanillaStore } from './vanillaStore.js';
+
+export { vanillaComputedStore } from './vanillaComputedStore.js';
+export type {
+  VanillaComputed,
+  VanillaComputedDependency,
+} from './vanillaComputedStore.js';
+export type {
+  WatcherChange,
+  WatcherCommit,
+  WatcherOptions,
+} from './storeCore.js';
+export type { WatcherMiddleware, WatcherWrite } from './middleware.js';
+
+export { createHistory } from './createHistory.js';
+export type {
+  HistoryOptions,
+  HistoryState,
+  WatcherHistory,
+} from './createHistory.js';
+
+export { createMemoryStorage, persist } from './persist.js';
+export type {
+  PersistOptions,
+  PersistState,
+  PersistStorage,
+  WatcherPersist,
+} from './persist.js';
+
+export {
+  createBroadcastChannelTransport,
+  syncAcrossTabs,
+} from './syncAcrossTabs.js';
+export type {
+  SyncMessage,
+  SyncOptions,
+  SyncTransport,
+  SyncUpdate,
+} from './syncAcrossTabs.js';
+
+export { connectDevtools } from './connectDevtools.js';
+export type {
+  DevtoolsAction,
+  DevtoolsConnection,
+  DevtoolsMessage,
+  DevtoolsOptions,
+} from './connectDevtools.js';
+
+export { queryStore } from './queryStore.js';
+export type {
+  Query,
+  QueryOptions,
+  QueryState,
+  QueryStore,
+} from './queryStore.js';
+
+export { createStoreContext } from './createStoreContext.js';
+export type { StoreContext, StoreProviderProps } from './createStoreContext.js';
+
+export {
+  createStoreScope,
+  dehydrate,
+  hydrate,
+  scopedStore,
+  StoreScopeProvider,
+} from './storeScope.js';
+export type { ScopedStore, StoreScope } from './storeScope.js';
+
+export { createEntityAdapter } from './createEntityAdapter.js';
+export type {
+  EntityAdapter,
+  EntityAdapterOptions,
+  EntityCollection,
+  EntityId,
+  EntityState,
+} from './createEntityAdapter.js';
 
-export { watcherStore } from './watcherStore';
-export type { WatcherStore } from './watcherStore';
+export { fromJsonPointer, toJsonPointer } from './jsonPatch.js';
+export type { JsonPatchOperation } from './jsonPatch.js';
 
-export type { PathOf, TypeAtPath } from './pathOf';
+export type {
+  PathOf,
+  PathPatternOf,
+  TypeAtPath,
+  TypesAtPaths,
+} from './pathOf.js';
@@ -0,0 +1,299 @@
+import { getDeepPath, isDeepEqual } from './object.js';
+import type { WatcherChange, WatcherCommit } from './storeCore.js';
+
+/**
+ * A JSON Patch operation, as described in RFC 6902.
+ * `path` and `from` are JSON Pointers (RFC 6901), eg. '/todos/0/completed'.
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: any };
+
+const escapeSegment = (segment: string) =>
+  segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeSegment = (segment: string) =>
+  segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * Convert a dotted store path into a JSON Pointer. null, the entire state,
+ * becomes the root pointer ''.
+ *
+ * @example
+ * toJsonPointer('todos.0.completed') // '/todos/0/completed'
+ */
+export const toJsonPointer = (path: string | null) =>
+  path === null
+    ? ''
+    : path
+        .split('.')
+        .map(segment => `/${escapeSegment(segment)}`)
+        .join('');
+
+/**
+ * Convert a JSON Pointer into path segments. The root pointer '' becomes [].
+ *
+ * @example
+ * fromJsonPointer('/todos/0/completed') // ['todos', '0', 'completed']
+ */
+export const fromJsonPointer = (pointer: string): string[] => {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+
+  return pointer.slice(1).split('/').map(unescapeSegment);
+};
+
+const isArrayIndex = (change: WatcherChange, commit: WatcherCommit<any>) => {
+  const parentParts = (change.path as string).split('.').slice(0, -1);
+  const parent =
+    parentParts.length === 0
+      ? commit.state
+      : getDeepPath(commit.state, parentParts);
+  return Array.isArray(parent);
+};
+
+/**
+ * The patch for a single change, and the patch which reverses it
+ */
+const toPatch = (
+  change: WatcherChange,
+  commit: WatcherCommit<any>
+): [JsonPatchOperation, JsonPatchOperation] | null => {
+  const { prevValue, nextValue } = change;
+  const path = toJsonPointer(change.path);
+
+  if (Object.is(prevValue, nextValue)) {
+    return null;
+  }
+
+  if (change.path === null) {
+    return [
+      { op: 'replace', path, value: nextValue },
+      { op: 'replace', path, value: prevValue },
+    ];
+  }
+
+  if (prevValue === undefined) {
+    return [
+      { op: 'add', path, value: nextValue },
+      { op: 'remove', path },
+    ];
+  }
+
+  if (nextValue === undefined) {
+    // clearPath leaves a hole in an array rather than shifting the items
+    // after it, which JSON can only represent as null
+    if (isArrayIndex(change, commit)) {
+      return [
+        { op: 'replace', path, value: null },
+        { op: 'replace', path, value: prevValue },
+      ];
+    }
+
+    return [
+      { op: 'remove', path },
+      { op: 'add', path, value: prevValue },
+    ];
+  }
+
+  return [
+    { op: 'replace', path, value: nextValue },
+    { op: 'replace', path, value: prevValue },
+  ];
+};
+
+/**
+ * Convert a commit into JSON Patch operations, using the paths the store
+ * recorded at write time rather than diffing the state.
+ *
+ * The inverse patches undo the commit when applied in order.
+ */
+export const commitToPatches = (
+  commit: WatcherCommit<any>
+): [JsonPatchOperation[], JsonPatchOperation[]] => {
+  const patches: JsonPatchOperation[] = [];
+  const inversePatches: JsonPatchOperation[] = [];
+
+  for (const change of commit.changes) {
+    const patch = toPatch(change, commit);
+    if (patch) {
+      patches.push(patch[0]);
+      inversePatches.unshift(patch[1]);
+    }
+  }
+
+  return [patches, inversePatches];
+};
+
+/** the store methods applyPatchOperation writes through */
+type PatchTarget = {
+  getState: () => any;
+  setState: (value: any) => void;
+  setPath: (path: string, value: any) => void;
+  clearPath: (path: string) => void;
+};
+
+const toStorePath = (parts: string[]) => {
+  if (parts.some(part => part.includes('.'))) {
+    throw new Error(
+      `Cannot apply patch to "/${parts.join('/')}", keys containing "." are not supported`
+    );
+  }
+  return parts.join('.');
+};
+
+/**
+ * resolve an array index for add ('-' appends) or for remove / replace,
+ * which need an existing item
+ */
+const toArrayIndex = (array: any[], segment: string, isAdd: boolean) => {
+  if (isAdd && segment === '-') {
+    return array.length;
+  }
+
+  const index = Number(segment);
+  const maxIndex = isAdd ? array.length : array.length - 1;
+  if (!/^(0|[1-9][0-9]*)$/.test(segment) || index > maxIndex) {
+    throw new Error(`Array index "${segment}" is out of bounds`);
+  }
+  return index;
+};
+
+const getValue = (target: PatchTarget, parts: string[]) => {
+  const value =
+    parts.length === 0
+      ? target.getState()
+      : getDeepPath(target.getState(), parts);
+  if (value === undefined) {
+    throw new Error(`No value at "${toJsonPointer(toStorePath(parts))}"`);
+  }
+  return value;
+};
+
+const getParent = (target: PatchTarget, parts: string[]) => {
+  const parentParts = parts.slice(0, -1);
+  const parent =
+    parentParts.length === 0
+      ? target.getState()
+      : getDeepPath(target.getState(), parentParts);
+  if (typeof parent !== 'object' || parent === null) {
+    throw new Error(
+      `No object or array at "${toJsonPointer(toStorePath(parentParts))}"`
+    );
+  }
+  return parent;
+};
+
+const add = (target: PatchTarget, parts: string[], value: any) => {
+  if (parts.length === 0) {
+    target.setState(value);
+    return;
+  }
+
+  const parent = getParent(target, parts);
+  const last = parts[parts.length - 1];
+  if (Array.isArray(parent)) {
+    // add inserts into an array, shifting the items after it
+    const index = toArrayIndex(parent, last, true);
+    const next = [...parent];
+    next.splice(index, 0, value);
+    writeParent(target, parts, next);
+  } else {
+    target.setPath(toStorePath(parts), value);
+  }
+};
+
+const remove = (target: PatchTarget, parts: string[]) => {
+  if (parts.length === 0) {
+    throw new Error('Cannot remove the entire state');
+  }
+
+  getValue(target, parts);
+  const parent = getParent(target, parts);
+  const last = parts[parts.length - 1];
+  if (Array.isArray(parent)) {
+    const index = toArrayIndex(parent, last, false);
+    const next = [...parent];
+    next.splice(index, 1);
+    writeParent(target, parts, next);
+  } else {
+    target.clearPath(toStorePath(parts));
+  }
+};
+
+const writeParent = (target: PatchTarget, parts: string[], value: any) => {
+  const parentParts = parts.slice(0, -1);
+  if (parentParts.length === 0) {
+    target.setState(value);
+  } else {
+    target.setPath(toStorePath(parentParts), value);
+  }
+};
+
+/**
+ * Apply a single JSON Patch operation by writing through the store, so each
+ * write is cloned with setDeepPathClone / deleteDeepPathClone and notifies
+ * only the paths it touches.
+ *
+ * Throws if the operation can't be applied, or if a `test` fails.
+ */
+export const applyPatchOperation = (
+  target: PatchTarget,
+  operation: JsonPatchOperation
+) => {
+  const parts = fromJsonPointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      add(target, parts, operation.value);
+      break;
+    case 'remove':
+      remove(target, parts);
+      break;
+    case 'replace':
+      getValue(target, parts);
+      if (parts.length === 0) {
+        target.setState(operation.value);
+      } else {
+        target.setPath(toStorePath(parts), operation.value);
+      }
+      break;
+    case 'move': {
+      const fromParts = fromJsonPointer(operation.from);
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error(
+          `Cannot move "${operation.from}" into its own child "${operation.path}"`
+        );
+      }
+      const value = getValue(target, fromParts);
+      remove(target, fromParts);
+      add(target, parts, value);
+      break;
+    }
+    case 'copy':
+      add(target, parts, getValue(target, fromJsonPointer(operation.from)));
+      break;
+    case 'test': {
+      const value =
+        parts.length === 0
+          ? target.getState()
+          : getDeepPath(target.getState(), parts);
+      if (!isDeepEqual(value, operation.value)) {
+        throw new Error(`Test failed at "${operation.path}"`);
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown JSON Patch operation "${(operation as { op: string }).op}"`
+      );
+  }
+};
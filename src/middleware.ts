@@ -0,0 +1,64 @@
+/**
+ * A single write travelling through the middleware chain.
+ */
+export type WatcherWrite<T extends Record<string, any>> = {
+  /** the method which started the write */
+  type: 'setState' | 'setPath' | 'clearPath';
+  /** the path being written, or null when the entire state is replaced */
+  path: string | null;
+  /** the value currently at the path (the entire state for setState) */
+  prevValue: any;
+  /** the value about to be written. undefined when clearing a path */
+  nextValue: any;
+  /** the entire state before the write */
+  state: T;
+};
+
+/**
+ * Middleware runs in order for every setState, setPath and clearPath.
+ *
+ * - pass the write on with `next(write.nextValue)`
+ * - change the value with `next(otherValue)`
+ * - veto the write by not calling `next`
+ *
+ * `next` must be called synchronously, and at most once.
+ *
+ * @example
+ * const logger: WatcherMiddleware<State> = (write, next) => {
+ *   console.log(write.type, write.path, write.prevValue, write.nextValue);
+ *   next(write.nextValue);
+ * };
+ */
+export type WatcherMiddleware<T extends Record<string, any>> = (
+  write: WatcherWrite<T>,
+  next: (value: any) => void
+) => void;
+
+/**
+ * Run a write through each middleware in order, calling `commit` with the
+ * final value. If any middleware vetoes the write, `commit` is never called.
+ */
+export const runMiddleware = <T extends Record<string, any>>(
+  middleware: WatcherMiddleware<T>[],
+  write: WatcherWrite<T>,
+  commit: (value: any) => void
+) => {
+  const dispatch = (index: number, value: any) => {
+    if (index === middleware.length) {
+      commit(value);
+      return;
+    }
+
+    let called = false;
+    middleware[index]({ ...write, nextValue: value }, nextValue => {
+      // ignore a second call, the write has already moved on
+      if (called) {
+        return;
+      }
+      called = true;
+      dispatch(index + 1, nextValue);
+    });
+  };
+
+  dispatch(0, write.nextValue);
+};
@@ -155,6 +155,135 @@ export const isShallowEqual = (left: unknown, right: unknown) => {
   });
 };
 
+// plain objects and arrays, which can be walked key by key. Anything else,
+// eg. a Date, Map or class instance, is a value of its own
+const isPlainContainer = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return Array.isArray(value) || proto === Object.prototype || proto === null;
+};
+
+type Comparing = Map<object, Set<object>>;
+
+const isKeysEqual = (
+  left: Record<string, unknown>,
+  right: Record<string, unknown>,
+  comparing: Comparing
+) => {
+  const leftKeys = Object.keys(left);
+  return (
+    leftKeys.length === Object.keys(right).length &&
+    leftKeys.every(
+      key =>
+        Object.prototype.hasOwnProperty.call(right, key) &&
+        isDeepEqual(left[key], right[key], comparing)
+    )
+  );
+};
+
+// keys are matched by identity, as a Map looks them up
+const isMapEqual = (
+  left: Map<unknown, unknown>,
+  right: Map<unknown, unknown>,
+  comparing: Comparing
+) =>
+  left.size === right.size &&
+  [...left].every(
+    ([key, value]) =>
+      right.has(key) && isDeepEqual(value, right.get(key), comparing)
+  );
+
+// values are matched by identity first, then objects by value
+const isSetEqual = (
+  left: Set<unknown>,
+  right: Set<unknown>,
+  comparing: Comparing
+) =>
+  left.size === right.size &&
+  [...left].every(
+    value =>
+      right.has(value) ||
+      (typeof value === 'object' &&
+        value !== null &&
+        [...right].some(other => isDeepEqual(value, other, comparing)))
+  );
+
+/**
+ * Deep equality: compares keys/indices recursively, with `Object.is` for
+ * primitives. Dates compare by time, RegExps by source and flags, Maps by
+ * key and value, and Sets by their values. Any other object which isn't a
+ * plain object or array, eg. a Promise or class instance, is only equal to
+ * itself. Safe for circular references, a pair of objects already being
+ * compared further up is assumed equal.
+ *
+ * @example
+ * isDeepEqual([{ a: 1 }], [{ a: 1 }])        // true  — compared by value
+ * isDeepEqual({ a: { b: 1 } }, { a: { b: 2 } }) // false
+ * isDeepEqual([], {})                        // false — array vs object
+ * isDeepEqual(0, -0)                         // false — Object.is semantics
+ * isDeepEqual(new Set([1]), new Set([2]))    // false
+ */
+export const isDeepEqual = (
+  left: unknown,
+  right: unknown,
+  // the pairs currently being compared, to stop at circular references
+  comparing: Comparing = new Map()
+): boolean => {
+  if (Object.is(left, right)) {
+    return true;
+  }
+
+  if (
+    typeof left !== 'object' ||
+    left === null ||
+    typeof right !== 'object' ||
+    right === null ||
+    Array.isArray(left) !== Array.isArray(right) ||
+    Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)
+  ) {
+    return false;
+  }
+
+  if (left instanceof Date) {
+    return Object.is(left.getTime(), (right as Date).getTime());
+  }
+  if (left instanceof RegExp) {
+    return (
+      left.source === (right as RegExp).source &&
+      left.flags === (right as RegExp).flags
+    );
+  }
+  if (
+    !isPlainContainer(left) &&
+    !(left instanceof Map) &&
+    !(left instanceof Set)
+  ) {
+    return false;
+  }
+
+  let pairs = comparing.get(left);
+  if (pairs?.has(right)) {
+    return true;
+  }
+  if (!pairs) {
+    pairs = new Set();
+    comparing.set(left, pairs);
+  }
+  pairs.add(right);
+
+  const isEqual =
+    left instanceof Map
+      ? isMapEqual(left, right as Map<unknown, unknown>, comparing)
+      : left instanceof Set
+        ? isSetEqual(left, right as Set<unknown>, comparing)
+        : isKeysEqual(left, right as Record<string, unknown>, comparing);
+
+  pairs.delete(right);
+  return isEqual;
+};
+
 /**
  * Delete a value at a deep path, cloning any nested object which changes
  *
@@ -237,3 +366,170 @@ export const deleteDeepPathClone = (
     return result;
   }
 };
+
+/**
+ * List the paths which changed between two versions of an object, by
+ * walking both and comparing references. Unchanged branches (the same
+ * reference) are skipped entirely, and removed keys are included.
+ *
+ * Only plain objects and arrays are walked into. Any other value with a new
+ * reference, eg. a Date, Map or Promise, is listed as a whole, as is a plain
+ * object or array with a new reference but the same contents. An array whose
+ * length changed also lists its `length`.
+ *
+ * Once `maxDepth` levels deep, a changed value is listed as a whole rather
+ * than walked into.
+ *
+ * @example
+ * const prev = { user: { name: 'Alice', age: 30 }, todos: [] };
+ * const next = { user: { ...prev.user, name: 'Bob' }, todos: prev.todos };
+ *
+ * getChangedPaths(prev, next);           // ['user.name']
+ * getChangedPaths(prev, next, 1);        // ['user']
+ * getChangedPaths(prev, { todos: [1] }); // ['user', 'todos.0', 'todos.length']
+ */
+export const getChangedPaths = (
+  prev: unknown,
+  next: unknown,
+  maxDepth = Infinity
+): string[] => {
+  const paths: string[] = [];
+
+  const walk = (left: unknown, right: unknown, parts: string[]) => {
+    if (Object.is(left, right)) {
+      return;
+    }
+
+    const canWalk =
+      parts.length === 0 ||
+      (parts.length < maxDepth &&
+        isPlainContainer(left) &&
+        isPlainContainer(right) &&
+        Array.isArray(left) === Array.isArray(right));
+
+    if (!canWalk) {
+      paths.push(parts.join('.'));
+      return;
+    }
+
+    const pathCount = paths.length;
+    const leftObj = isPlainContainer(left) ? left : {};
+    const rightObj = isPlainContainer(right) ? right : {};
+    const keys = new Set([...Object.keys(leftObj), ...Object.keys(rightObj)]);
+    for (const key of keys) {
+      walk(leftObj[key], rightObj[key], [...parts, key]);
+    }
+
+    if (
+      Array.isArray(left) &&
+      Array.isArray(right) &&
+      left.length !== right.length
+    ) {
+      paths.push([...parts, 'length'].join('.'));
+    }
+    // a new reference is a change, even with the same contents. The root is
+    // skipped, as subscribers of the entire state are always notified
+    if (paths.length === pathCount && parts.length > 0) {
+      paths.push(parts.join('.'));
+    }
+  };
+
+  walk(prev, next, []);
+  return paths;
+};
+
+/**
+ * true when a path contains a `*` (any one key) or `**` (any keys, one or
+ * more levels deep) segment
+ *
+ * @example
+ * isWildcardPath(['todos', '*', 'completed']) // true
+ * isWildcardPath(['todos', '0', 'completed']) // false
+ */
+export const isWildcardPath = (paths: string[]) =>
+  paths.some(path => path === '*' || path === '**');
+
+/**
+ * Get every value matching a wildcard path, in key order. `*` matches any
+ * one key, `**` matches any keys one or more levels deep.
+ *
+ * Items missing the rest of the path give undefined, so each matched item
+ * has a value. After a `**`, keys missing the rest of the path are skipped
+ * instead, as they'd otherwise add an undefined for every descendant.
+ *
+ * @example
+ * const state = {
+ *   todos: [
+ *     { text: 'Learn React', completed: true },
+ *     { text: 'Build a project', completed: false },
+ *   ],
+ * };
+ *
+ * getWildcardValues(state, ['todos', '*', 'completed']); // [true, false]
+ * getWildcardValues(state, ['todos', '**']);
+ * // [{ text: 'Learn React', ... }, 'Learn React', true, { text: 'Build ... }, ...]
+ * getWildcardValues(state, ['**', 'completed']); // [true, false]
+ */
+export const getWildcardValues = (obj: unknown, paths: string[]): any[] => {
+  const values: any[] = [];
+
+  // afterAnyDepth is true once a ** has been matched
+  const walk = (value: unknown, index: number, afterAnyDepth: boolean) => {
+    if (index === paths.length) {
+      values.push(value);
+      return;
+    }
+
+    const path = paths[index];
+    if (path !== '*' && path !== '**') {
+      const isObject = typeof value === 'object' && value !== null;
+      if (afterAnyDepth && !(isObject && path in value)) {
+        return;
+      }
+      walk(
+        isObject ? (value as Record<any, any>)[path] : undefined,
+        index + 1,
+        afterAnyDepth
+      );
+      return;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      const child = (value as Record<any, any>)[key];
+      walk(child, index + 1, afterAnyDepth || path === '**');
+      if (path === '**') {
+        // ** can keep matching deeper keys
+        walk(child, index, afterAnyDepth);
+      }
+    }
+  };
+
+  walk(obj, 0, false);
+  return values;
+};
+
+/**
+ * List the indices whose item changed between two versions of an array,
+ * including indices added or removed at the end.
+ *
+ * @example
+ * const prev = ['a', 'b', 'c'];
+ *
+ * getChangedIndices(prev, ['a', 'c']);           // [1, 2]
+ * getChangedIndices(prev, ['a', 'b', 'c', 'd']); // [3]
+ * getChangedIndices(prev, ['c', 'b', 'a']);      // [0, 2]
+ */
+export const getChangedIndices = (prev: any[], next: any[]): number[] => {
+  const indices: number[] = [];
+  const length = Math.max(prev.length, next.length);
+  for (let index = 0; index < length; index++) {
+    if (!Object.is(prev[index], next[index])) {
+      indices.push(index);
+    }
+  }
+  return indices;
+};
@@ -8,19 +8,97 @@ export type PathOf<T extends Record<string, any>> = {
     : `${Key}`;
 }[FilteredKeys<T>];
 
+// the type of any one item in an array or object
+type ItemOf<T> = T extends readonly (infer Item)[] ? Item : T[keyof T];
+
+// the keys a pattern can name, array methods like 'find' are left out
+type PatternKeys<T> = T extends readonly any[]
+  ? number & keyof T
+  : FilteredKeys<T>;
+
+/**
+ * All paths, plus wildcard patterns for subscribing to many paths at once.
+ * `*` matches any one key, `**` matches any keys one or more levels deep.
+ *
+ * eg. 'todos.*.completed', 'users.**'
+ */
+export type PathPatternOf<T extends Record<string, any>> =
+  // any, eg. the values of Record<string, any>, accepts any pattern
+  0 extends 1 & T
+    ? string
+    : // no items, eg. the items of an empty object
+      [T] extends [never]
+      ? never
+      :
+          | PathOf<T>
+          | '**'
+          // `*.` continues only when every item is an object, eg. an array of
+          // todos
+          | (NonNullable<ItemOf<T>> extends object
+              ? '*' | `*.${PathPatternOf<NonNullable<ItemOf<T>>>}`
+              : '*')
+          | {
+              [Key in PatternKeys<T>]: NonNullable<T[Key]> extends object
+                ? `${Key}.${PathPatternOf<NonNullable<T[Key]>>}`
+                : never;
+            }[PatternKeys<T>];
+
+type IsWildcardPath<Path extends string> = Path extends
+  | '*'
+  | '**'
+  | `*.${string}`
+  | `**.${string}`
+  | `${string}.*`
+  | `${string}.**`
+  | `${string}.*.${string}`
+  | `${string}.**.${string}`
+  ? true
+  : false;
+
+// the type of each value matched by a wildcard pattern
+type TypeAtPattern<T, Path extends string> = Path extends '**'
+  ? unknown
+  : Path extends '*'
+    ? ItemOf<T>
+    : Path extends `${infer Key}.${infer Rest}`
+      ? Key extends '**'
+        ? unknown
+        : Key extends '*'
+          ? TypeAtPattern<NonNullable<ItemOf<T>>, Rest>
+          : Key extends keyof NonNullable<T>
+            ? TypeAtPattern<NonNullable<NonNullable<T>[Key]>, Rest>
+            : never
+      : Path extends keyof NonNullable<T>
+        ? NonNullable<T>[Path]
+        : never;
+
 /**
- * Get the type at a specified path
+ * Get the type at a specified path. A wildcard pattern gives an array of
+ * every matching value.
  *
  * eg. TypeAtPath<MyType, 'address.city'> // evals to 'New York' | 'Los Angeles'
+ * eg. TypeAtPath<MyType, 'friends.*'> // evals to string[]
  */
-export type TypeAtPath<
+export type TypeAtPath<T extends Record<string, any>, Path extends string> =
+  IsWildcardPath<Path> extends true
+    ? TypeAtPattern<T, Path>[]
+    : Path extends `${infer Key}.${infer Rest}`
+      ? NonNullable<T[Key]> extends Record<string, any>
+        ? TypeAtPath<NonNullable<T[Key]>, Rest>
+        : never
+      : T[Path];
+
+/**
+ * Get the type at each of several paths, as a tuple for a tuple of paths or
+ * an object with the same keys for an object of paths.
+ *
+ * eg. TypesAtPaths<MyType, ['name', 'age']> // evals to [string, number | undefined]
+ * eg. TypesAtPaths<MyType, { city: 'address.city' }> // evals to { city: 'New York' | 'Los Angeles' }
+ */
+export type TypesAtPaths<
   T extends Record<string, any>,
-  Path extends string,
-> = Path extends `${infer Key}.${infer Rest}`
-  ? NonNullable<T[Key]> extends Record<string, any>
-    ? TypeAtPath<NonNullable<T[Key]>, Rest>
-    : never
-  : T[Path];
+  Paths extends readonly string[] | Record<string, string>,
+> = { -readonly [K in keyof Paths]: TypeAtPath<T, Paths[K] & string> };
 
 // ----------------------------------------------------------------------------
 // EXAMPLE USAGE
@@ -100,6 +178,26 @@ const typeExample12: TypeAtPath<MyType, 'friends.0'> = 'Alice'; // string
 const typeExample13: TypeAtPath<MyType, 'sub.a.b'> = 42; // number
 const typeExample84: TypeAtPath<MyType, 'record.key1'> = 'value1'; // string
 
+// Test wildcard patterns
+const pattern01: PathPatternOf<MyType> = 'friends.*';
+const pattern02: PathPatternOf<MyType> = 'address.*';
+const pattern03: PathPatternOf<MyType> = 'address.street.*';
+const pattern04: PathPatternOf<MyType> = 'sub.*.b';
+const pattern05: PathPatternOf<MyType> = 'address.**';
+const pattern06: PathPatternOf<MyType> = 'name'; // plain paths are patterns too
+// const badPattern01: PathPatternOf<MyType> = 'address.*.friends'; // expected error
+// const badPattern02: PathPatternOf<MyType> = '*.a.b'; // expected error, not every item is an object
+const typePattern01: TypeAtPath<MyType, 'friends.*'> = ['Alice', 'Bob']; // string[]
+const typePattern02: TypeAtPath<MyType, 'address.street.*'> = ['123 Main St']; // (string | undefined)[]
+const typePattern03: TypeAtPath<MyType, 'sub.*.b'> = [42]; // number[]
+const typePattern04: TypeAtPath<MyType, 'address.**'> = ['New York']; // unknown[]
+
+// Test several paths at once
+const typePaths01: TypesAtPaths<MyType, ['name', 'age']> = ['John Doe', 25]; // [string, number | undefined]
+const typePaths02: TypesAtPaths<MyType, { city: 'address.city' }> = {
+  city: 'New York',
+}; // { city: 'New York' | 'Los Angeles' }
+
 // Test with undefined values for optional properties
 const typeExampleUndef1: TypeAtPath<MyType, 'age'> = undefined; // number | undefined
 const typeExampleUndef2: TypeAtPath<MyType, 'age'> = 25; // number | undefined
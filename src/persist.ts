@@ -0,0 +1,345 @@
+import {
+  deleteDeepPathClone,
+  getDeepPath,
+  setDeepPathClone,
+} from './object.js';
+import { isPathWithin } from './shared.js';
+import type { WatcherCommit } from './storeCore.js';
+import type { WatcherCore } from './watcherBase.js';
+import { watcherStore, type WatcherStore } from './watcherStore.js';
+
+/**
+ * Where persisted state is kept. localStorage and sessionStorage fit this
+ * interface, and so does anything async (eg. IndexedDB or React Native's
+ * AsyncStorage) that returns promises.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistOptions {
+  /** the storage key */
+  key: string;
+  /** defaults to localStorage */
+  storage?: PersistStorage;
+  /** only persist these paths. Defaults to the entire state */
+  include?: string[];
+  /** never persist these paths, eg. ['auth.token'] */
+  exclude?: string[];
+  /** bump this when the shape of the persisted state changes. Defaults to 0 */
+  version?: number;
+  /**
+   * called on hydration when the persisted version doesn't match `version`.
+   * Return the persisted state upgraded to the current shape. Without
+   * migrate, a persisted state with a different version is ignored.
+   */
+  migrate?: (oldState: any, oldVersion: number) => any | Promise<any>;
+  /** write at most once per `throttle` ms. Defaults to 100 */
+  throttle?: number;
+}
+
+export type PersistState = {
+  /** true once the persisted state has been read back into the store */
+  hydrated: boolean;
+  /**
+   * set if reading the storage or migrating failed, or if a throttled write
+   * failed, eg. with a QuotaExceededError
+   */
+  error: unknown;
+};
+
+export interface WatcherPersist
+  extends Pick<
+    WatcherStore<PersistState>,
+    'getState' | 'getPath' | 'useState' | 'usePath' | 'watchState' | 'watchPath'
+  > {
+  /** read the persisted state back into the store */
+  rehydrate: () => Promise<void>;
+  /** write any throttled changes to storage now */
+  flush: () => Promise<void>;
+  /** remove the persisted state from storage */
+  clear: () => Promise<void>;
+  /** stop persisting changes */
+  dispose: () => void;
+}
+
+type PersistedValue = {
+  version: number;
+  state: any;
+};
+
+const isPromise = (value: unknown): value is Promise<unknown> =>
+  typeof (value as Promise<unknown>)?.then === 'function';
+
+/**
+ * call `fn` with the value straight away if it's sync, or once it resolves
+ * if it's a promise. Lets sync storage hydrate before the first render.
+ */
+const whenReady = <V, R>(
+  value: V | Promise<V>,
+  fn: (value: V) => R | Promise<R>
+): R | Promise<R> => (isPromise(value) ? value.then(fn) : fn(value));
+
+/**
+ * An in-memory PersistStorage, useful for tests and for environments without
+ * localStorage.
+ */
+export const createMemoryStorage = (): PersistStorage & {
+  items: Map<string, string>;
+} => {
+  const items = new Map<string, string>();
+
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Save chosen paths of a store to storage, and read them back on startup.
+ *
+ * With sync storage (eg. localStorage) the store is hydrated before persist
+ * returns. With async storage, `hydrated` becomes true once it's done. Changes
+ * made before hydration completes are not persisted, so the stored state is
+ * never overwritten by the defaults.
+ *
+ * @example
+ * const settings = persist(appStore, {
+ *   key: 'app',
+ *   include: ['theme', 'auth'],
+ *   version: 2,
+ *   migrate: (state, version) => {
+ *     if (version < 1) state = { ...state, theme: state.darkMode ? 'dark' : 'light' };
+ *     if (version < 2) state = { ...state, auth: null };
+ *     return state;
+ *   },
+ * });
+ *
+ * // in a component
+ * const hydrated = settings.usePath('hydrated');
+ */
+export const persist = <T extends Record<string, any>>(
+  store: WatcherCore<T>,
+  options: PersistOptions
+): WatcherPersist => {
+  const {
+    key,
+    storage = globalThis.localStorage,
+    include,
+    exclude = [],
+    version = 0,
+    migrate,
+    throttle = 100,
+  } = options;
+  const status = watcherStore<PersistState>({ hydrated: false, error: null });
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  // true while hydration writes to the store, so we don't write it back
+  let isHydrating = false;
+
+  if (!storage) {
+    throw new Error('persist requires a storage when localStorage is missing');
+  }
+
+  // --- helper fns ---
+
+  /** the part of the state which should be persisted */
+  const select = (state: T) => {
+    let selected: Record<string, any> = {};
+    if (include) {
+      for (const path of include) {
+        const value = getDeepPath(state, path.split('.'));
+        if (value !== undefined) {
+          selected = setDeepPathClone(selected, path.split('.'), value);
+        }
+      }
+    } else {
+      selected = state;
+    }
+
+    for (const path of exclude) {
+      selected = deleteDeepPathClone(selected, path.split('.'));
+    }
+
+    return selected;
+  };
+
+  const isPersisted = (path: string | null) => {
+    if (path === null || !include) {
+      return true;
+    }
+
+    return include.some(
+      includePath =>
+        isPathWithin(path, includePath) || isPathWithin(includePath, path)
+    );
+  };
+
+  const write = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+
+    const value: PersistedValue = { version, state: select(store.getState()) };
+    return storage.setItem(key, JSON.stringify(value));
+  };
+
+  // a throttled write has no caller to throw to, so report its error on
+  // the status instead, for sync and async storage alike
+  const writeThrottled = () => {
+    try {
+      Promise.resolve(write()).catch(error => status.setPath('error', error));
+    } catch (error) {
+      status.setPath('error', error);
+    }
+  };
+
+  const onCommit = ({ changes }: WatcherCommit<T>) => {
+    if (isHydrating || !status.getPath('hydrated')) {
+      return;
+    }
+
+    if (!changes.some(change => isPersisted(change.path))) {
+      return;
+    }
+
+    if (!timeout) {
+      timeout = setTimeout(writeThrottled, throttle);
+    }
+  };
+
+  /** write the persisted state into the store, in a single batch */
+  const apply = (persisted: any) => {
+    if (persisted === null || typeof persisted !== 'object') {
+      return;
+    }
+
+    const current = store.getState();
+    const selected = select(persisted);
+    const paths = include ?? Object.keys(selected);
+
+    let next: Record<string, any> = current;
+    for (const path of paths) {
+      const value = getDeepPath(selected, path.split('.'));
+      if (value !== undefined) {
+        next = setDeepPathClone(next, path.split('.'), value);
+      }
+    }
+    // excluded paths keep their current value
+    for (const path of exclude) {
+      const value = getDeepPath(current, path.split('.'));
+      next =
+        value === undefined
+          ? deleteDeepPathClone(next, path.split('.'))
+          : setDeepPathClone(next, path.split('.'), value);
+    }
+
+    isHydrating = true;
+    try {
+      store.batch(() => {
+        for (const path of paths) {
+          const value = getDeepPath(next, path.split('.'));
+          if (value !== getDeepPath(current, path.split('.'))) {
+            store.setPath(path as never, value as never);
+          }
+        }
+      });
+    } finally {
+      isHydrating = false;
+    }
+  };
+
+  const hydrate = (): void | Promise<void> =>
+    whenReady(storage.getItem(key), raw => {
+      let persisted: PersistedValue | null = null;
+      try {
+        persisted = raw ? JSON.parse(raw) : null;
+      } catch {
+        // unreadable state is treated the same as no state
+      }
+
+      if (!persisted) {
+        status.setPath('hydrated', true);
+        return;
+      }
+
+      if (persisted.version !== version && !migrate) {
+        status.setPath('hydrated', true);
+        return;
+      }
+
+      const migrated =
+        persisted.version !== version && migrate
+          ? migrate(persisted.state, persisted.version)
+          : persisted.state;
+
+      return whenReady(migrated, state => {
+        apply(state);
+        status.setPath('hydrated', true);
+      });
+    });
+
+  const rehydrate = async () => {
+    status.setState({ hydrated: false, error: null });
+    try {
+      await hydrate();
+    } catch (error) {
+      status.setPath('error', error);
+      throw error;
+    }
+  };
+
+  const flush = async () => {
+    if (timeout) {
+      await write();
+    }
+  };
+
+  const clear = async () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+    await storage.removeItem(key);
+  };
+
+  const unsubscribe = store.onCommit(onCommit);
+
+  const dispose = () => {
+    unsubscribe();
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+
+  try {
+    const hydrating = hydrate();
+    if (isPromise(hydrating)) {
+      hydrating.catch(error => status.setPath('error', error));
+    }
+  } catch (error) {
+    status.setPath('error', error);
+  }
+
+  return {
+    clear,
+    dispose,
+    flush,
+    getPath: status.getPath,
+    getState: status.getState,
+    rehydrate,
+    usePath: status.usePath,
+    useState: status.useState,
+    watchPath: status.watchPath,
+    watchState: status.watchState,
+  };
+};
@@ -0,0 +1,236 @@
+import { watcherStore, type WatcherStore } from './watcherStore.js';
+
+export type QueryState<T> = {
+  /** the last fetched data, kept while refetching or after an error */
+  data: T | undefined;
+  /** the error from the last fetch, cleared when a fetch succeeds */
+  error: unknown;
+  /** true while a fetch is in flight */
+  isFetching: boolean;
+  /** when data was last fetched successfully, in ms since the epoch */
+  updatedAt: number | null;
+};
+
+export interface QueryOptions<T, A extends unknown[]> {
+  /** the cache key for a set of args, or a fixed key */
+  key: string | ((...args: A) => string);
+  fetcher: (...args: A) => Promise<T>;
+  /** how long data stays fresh, in ms. Defaults to 0, always refetch */
+  staleTime?: number;
+  /**
+   * how long a query's data is kept after its last subscriber unmounts, or
+   * after a fetch settles while it has none, in ms. Defaults to 5 minutes
+   */
+  cacheTime?: number;
+}
+
+/** A cached query. Its state is read-only, and written by fetching */
+export interface Query<T>
+  extends Pick<
+    WatcherStore<QueryState<T>>,
+    | 'getState'
+    | 'getPath'
+    | 'useState'
+    | 'usePath'
+    | 'usePaths'
+    | 'watchState'
+    | 'watchPath'
+    | 'subscribe'
+    | '__addSubscriber__'
+    | '__removeSubscriber__'
+  > {
+  /** fetch now, even if the data is fresh. Joins a fetch in flight */
+  refetch: () => Promise<void>;
+  /**
+   * mark the data stale, refetching now if the query is mounted. During a
+   * fetch, it refetches once that fetch settles
+   */
+  invalidate: () => void;
+}
+
+export interface QueryStore<T, A extends unknown[]> {
+  /** the query for these args, shared by every caller with the same key */
+  query: (...args: A) => Query<T>;
+  /** mark every cached query stale, refetching those which are mounted */
+  invalidateAll: () => void;
+}
+
+const defaultCacheTime = 5 * 60 * 1000;
+
+/**
+ * Cache the results of an async fetcher per key, with stale-while-revalidate.
+ *
+ * A query fetches when its first subscriber mounts, unless its data is still
+ * fresh. Stale data is kept while it refetches in the background, and fetches
+ * for the same key are deduped. After the last subscriber unmounts, the data
+ * is dropped once `cacheTime` passes.
+ *
+ * @example
+ * const userQuery = queryStore({
+ *   key: (id: number) => `user/${id}`,
+ *   fetcher: (id: number) => fetch(`/users/${id}`).then(res => res.json()),
+ *   staleTime: 30_000,
+ * });
+ *
+ * // User.tsx
+ * const user = userQuery.query(id);
+ * const [data, isFetching] = user.usePaths(['data', 'isFetching']);
+ */
+export const queryStore = <T, A extends unknown[] = []>(
+  options: QueryOptions<T, A>
+): QueryStore<T, A> => {
+  const { key, fetcher, staleTime = 0 } = options;
+  const cacheTime = options.cacheTime ?? defaultCacheTime;
+  const queries = new Map<string, Query<T>>();
+
+  // --- helper fns ---
+
+  const getKey = (args: A) => (typeof key === 'function' ? key(...args) : key);
+
+  const createQuery = (queryKey: string, args: A): Query<T> => {
+    const store = watcherStore<QueryState<T>>({
+      data: undefined,
+      error: undefined,
+      isFetching: false,
+      updatedAt: null,
+    });
+    let inFlight: Promise<void> | null = null;
+    let invalidated = false;
+    // counts invalidate calls, so a fetch can tell if one arrived after it
+    // started
+    let invalidations = 0;
+    let mounted = false;
+    let dropTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const isStale = () => {
+      const { updatedAt } = store.getState();
+      return (
+        invalidated || updatedAt === null || Date.now() - updatedAt >= staleTime
+      );
+    };
+
+    // drop the query once cacheTime passes without a subscriber
+    const scheduleDrop = () => {
+      if (dropTimer) {
+        clearTimeout(dropTimer);
+      }
+      dropTimer = setTimeout(drop, cacheTime);
+    };
+
+    const refetch = () => {
+      if (inFlight) {
+        return inFlight;
+      }
+
+      const startedAfter = invalidations;
+      store.setPath('isFetching', true);
+      // an async fn, so a fetcher which throws synchronously rejects instead
+      inFlight = (async () => fetcher(...args))().then(
+        data => {
+          // data fetched before an invalidate is still stale
+          if (invalidations === startedAfter) {
+            invalidated = false;
+          }
+          store.setState({
+            data,
+            error: undefined,
+            isFetching: false,
+            updatedAt: Date.now(),
+          });
+        },
+        error => {
+          store.setState({ ...store.getState(), error, isFetching: false });
+        }
+      );
+      inFlight.finally(() => {
+        inFlight = null;
+        if (invalidations !== startedAfter && mounted) {
+          refetch();
+        } else if (!mounted) {
+          // a query which is only refetched is dropped like an unmounted one
+          scheduleDrop();
+        }
+      });
+      return inFlight;
+    };
+
+    const invalidate = () => {
+      invalidated = true;
+      invalidations++;
+      if (mounted) {
+        refetch();
+      }
+    };
+
+    // reset to the initial state and forget the query, so it's fetched from
+    // scratch next time
+    const drop = () => {
+      dropTimer = null;
+      // an old reference mustn't forget a newer query with the same key
+      if (queries.get(queryKey) === query) {
+        queries.delete(queryKey);
+      }
+      store.setState({
+        data: undefined,
+        error: undefined,
+        isFetching: store.getState().isFetching,
+        updatedAt: null,
+      });
+    };
+
+    store.onMount(() => {
+      mounted = true;
+      if (dropTimer) {
+        clearTimeout(dropTimer);
+        dropTimer = null;
+      }
+      // a dropped query mounted again through an old reference
+      if (!queries.has(queryKey)) {
+        queries.set(queryKey, query);
+      }
+      if (isStale()) {
+        refetch();
+      }
+
+      return () => {
+        mounted = false;
+        scheduleDrop();
+      };
+    });
+
+    const query: Query<T> = {
+      getState: store.getState,
+      getPath: store.getPath,
+      useState: store.useState,
+      usePath: store.usePath,
+      usePaths: store.usePaths,
+      watchState: store.watchState,
+      watchPath: store.watchPath,
+      subscribe: store.subscribe,
+      refetch,
+      invalidate,
+      // internal fns, do not call directly
+      __addSubscriber__: store.__addSubscriber__,
+      __removeSubscriber__: store.__removeSubscriber__,
+    };
+    return query;
+  };
+
+  const query = (...args: A) => {
+    const queryKey = getKey(args);
+    let cached = queries.get(queryKey);
+    if (!cached) {
+      cached = createQuery(queryKey, args);
+      queries.set(queryKey, cached);
+    }
+    return cached;
+  };
+
+  const invalidateAll = () => {
+    for (const cached of queries.values()) {
+      cached.invalidate();
+    }
+  };
+
+  return { query, invalidateAll };
+};
@@ -1,4 +1,12 @@
-import { getDeepPath } from './object';
+import {
+  getDeepPath,
+  getWildcardValues,
+  isDeepEqual,
+  isShallowEqual,
+  isWildcardPath,
+} from './object.js';
+import type { WatcherChange } from './storeCore.js';
+import type { SubscribeOptions } from './watcherBase.js';
 
 type WatcherDependencyTarget = {
   getState: () => any;
@@ -75,64 +83,224 @@ export const subscribeToDependency = (
 };
 
 /**
- * each path that's being updated should be a full path, not parts
- *
- * ✅ - ["todos.0.completed"]
- * ❌ - ["todos", "todos.0", "todos.0.completed"]
+ * the comparison a computed watcher uses to decide whether its result
+ * changed, from the name of a built-in one or a custom fn
  */
-export const notifyPathSubscribers = <T>(
-  subscribers: Iterable<{ path?: string; fn: Function }>,
-  value: T,
-  paths: string[]
-) => {
-  // each subscriber should only be called once
-  for (const subscriber of subscribers) {
-    // If the subscriber is watching a specific path (as opposed to the entire state)
-    if (subscriber.path) {
-      for (const notifyPath of paths) {
-        // first, check for exact and child matches
-        // eg. notifyPath = "todos.0.tags"
-        // we notify subscribers of exact matches "todos.0.tags", and sub-paths
-        // "todos.0.tags.0", "todos.0.tags.1", etc. but not siblings
-        // "todos.0.completed"
-        const childPathMatch = subscriber.path.startsWith(notifyPath);
-
-        if (childPathMatch) {
-          const pathValue = getDeepPath(value, subscriber.path.split('.'));
-          subscriber.fn(pathValue);
-          // we've notified this subscriber, so we can skip the rest of the paths
-          break;
-        }
-
-        // check for parent matches
-        // eg. notifyPath = "todos.0.tags"
-        // we notify subscribers of exact matches "todos.0.tags", and parents
-        // "todos.0", "todos"
-        const parentPathMatch = notifyPath.startsWith(subscriber.path);
-
-        if (parentPathMatch) {
-          const pathValue = getDeepPath(value, subscriber.path.split('.'));
-          subscriber.fn(pathValue);
-          break;
-        }
-      }
-    } else {
-      // If the subscriber is watching the entire state, then notify the
-      // subscriber with the complete state object
-      subscriber.fn(value);
+export const getEqualityFn = (
+  isEqual:
+    | 'shallow'
+    | 'deep'
+    | 'reference'
+    | ((prev: any, next: any) => boolean) = 'shallow'
+): ((prev: any, next: any) => boolean) => {
+  switch (isEqual) {
+    case 'shallow':
+      return isShallowEqual;
+    case 'deep':
+      return (prev, next) => isDeepEqual(prev, next);
+    case 'reference':
+      return Object.is;
+    default:
+      return isEqual;
+  }
+};
+
+/**
+ * the value at a path, or for a wildcard path like "todos.*.completed", an
+ * array of every matching value
+ */
+export const getPathValue = (value: unknown, path: string): any => {
+  const parts = path.split('.');
+  return isWildcardPath(parts)
+    ? getWildcardValues(value, parts)
+    : getDeepPath(value, parts);
+};
+
+/**
+ * The public subscribe fn of a store. Each call registers its own fn, as
+ * subscribers are identified by fn, so the same listener can subscribe to
+ * several paths.
+ */
+export const createSubscribe =
+  (target: {
+    getState: () => unknown;
+    addSubscriber: (fn: Function, path?: string) => void;
+    removeSubscriber: (fn: Function) => void;
+  }) =>
+  (
+    path: string | null,
+    listener: (value: any) => void,
+    options: SubscribeOptions = {}
+  ) => {
+    const { fireImmediately, signal } = options;
+    if (signal?.aborted) {
+      return () => {};
+    }
+
+    const fn = (value: unknown) => listener(value);
+    const unsubscribe = () => {
+      signal?.removeEventListener('abort', unsubscribe);
+      target.removeSubscriber(fn);
+    };
+
+    target.addSubscriber(fn, path ?? undefined);
+    signal?.addEventListener('abort', unsubscribe);
+    if (fireImmediately) {
+      const state = target.getState();
+      listener(path === null ? state : getPathValue(state, path));
     }
+
+    return unsubscribe;
+  };
+
+/**
+ * A getSnapshot fn for useSyncExternalStore. Wildcard paths build a new array
+ * on every read, so the previous array is returned while its items are
+ * unchanged, otherwise React would re-render forever.
+ */
+export const createPathSnapshot = (getState: () => unknown, path: string) => {
+  if (!isWildcardPath(path.split('.'))) {
+    return (): any => getPathValue(getState(), path);
   }
+
+  let snapshot: any[] | undefined;
+  return (): any => {
+    const values = getPathValue(getState(), path);
+    if (!snapshot || !isShallowEqual(snapshot, values)) {
+      snapshot = values;
+    }
+    return snapshot;
+  };
 };
 
-export const getUniqueBatchedUpdates = <T>(
-  batchedUpdates: { value: T; paths: string[] }[]
+/**
+ * A getSnapshot fn for usePaths. Reads every path into a tuple, or an object
+ * with the same keys as `paths`, and returns the previous one while each
+ * value is unchanged.
+ */
+export const createPathsSnapshot = (
+  getState: () => unknown,
+  paths: readonly string[] | Record<string, string>
 ) => {
-  const updates: { value: T; paths: string[] }[] = [];
-  for (let i = batchedUpdates.length - 1; i >= 0; i--) {
-    const update = batchedUpdates[i];
-    if (!updates.some(u => u.paths.every(p => update.paths.includes(p)))) {
-      updates.push(update);
+  const keys = Object.keys(paths);
+  const getters = keys.map(key =>
+    createPathSnapshot(getState, (paths as Record<string, string>)[key])
+  );
+
+  let snapshot: any;
+  return (): any => {
+    const values: any = Array.isArray(paths) ? [] : {};
+    keys.forEach((key, i) => {
+      values[key] = getters[i]();
+    });
+    if (!snapshot || !isShallowEqual(snapshot, values)) {
+      snapshot = values;
+    }
+    return snapshot;
+  };
+};
+
+/**
+ * A getSnapshot fn for useSelector. The selector only re-runs when the state
+ * or the selector changes, and the previous result is returned while isEqual
+ * says it's unchanged, so useSyncExternalStore sees a stable value.
+ */
+export const createSelectorSnapshot = <T>(getState: () => T) => {
+  let cached: { state: T; selector: Function; value: any } | undefined;
+
+  return <R>(
+    selector: (state: T) => R,
+    isEqual: (prev: R, next: R) => boolean
+  ): R => {
+    const state = getState();
+    if (cached && cached.state === state && cached.selector === selector) {
+      return cached.value;
     }
+
+    const value = selector(state);
+    const nextValue =
+      cached && isEqual(cached.value, value) ? cached.value : value;
+    cached = { state, selector, value: nextValue };
+    return nextValue;
+  };
+};
+
+type PromiseState =
+  | { status: 'pending' }
+  | { status: 'fulfilled'; value: unknown }
+  | { status: 'rejected'; reason: unknown };
+
+// settled promises are remembered, so a re-render after the promise settles
+// can read its result synchronously
+const promiseStates = new WeakMap<PromiseLike<unknown>, PromiseState>();
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as PromiseLike<unknown>).then === 'function';
+
+/**
+ * Read a value for Suspense. A pending promise is thrown, so the nearest
+ * <Suspense> boundary shows its fallback until it settles. A rejected
+ * promise throws its reason to the error boundary. Anything else, including
+ * a fulfilled promise's result, is returned.
+ */
+export const readSuspenseValue = (value: unknown): any => {
+  if (!isPromiseLike(value)) {
+    return value;
+  }
+
+  let state = promiseStates.get(value);
+  if (!state) {
+    state = { status: 'pending' };
+    promiseStates.set(value, state);
+    value.then(
+      result =>
+        promiseStates.set(value, { status: 'fulfilled', value: result }),
+      reason => promiseStates.set(value, { status: 'rejected', reason })
+    );
+  }
+
+  if (state.status === 'fulfilled') {
+    return state.value;
+  }
+  if (state.status === 'rejected') {
+    throw state.reason;
+  }
+  throw value;
+};
+
+/**
+ * true when `path` is `parent`, or nested somewhere under it. Matches on
+ * whole path segments, so "user" does not contain "username".
+ */
+export const isPathWithin = (path: string, parent: string) =>
+  path === parent || path.startsWith(`${parent}.`);
+
+/**
+ * Narrow a change down to the part that falls under `scope`. Returns null if
+ * the change doesn't touch the scope at all.
+ */
+export const scopeChange = (
+  change: WatcherChange,
+  scope: string
+): WatcherChange | null => {
+  if (change.path !== null && isPathWithin(change.path, scope)) {
+    return change;
   }
-  return updates;
+
+  if (change.path === null || isPathWithin(scope, change.path)) {
+    // the change replaced a parent of the scope, only keep the scoped part
+    const parentDepth =
+      change.path === null ? 0 : change.path.split('.').length;
+    const relativeParts = scope.split('.').slice(parentDepth);
+    return {
+      type: 'setPath',
+      path: scope,
+      prevValue: getDeepPath(change.prevValue, relativeParts),
+      nextValue: getDeepPath(change.nextValue, relativeParts),
+    };
+  }
+
+  return null;
 };
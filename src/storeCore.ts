@@ -0,0 +1,549 @@
+import {
+  deleteDeepPathClone,
+  getChangedIndices,
+  getChangedPaths,
+  setDeepPathClone,
+} from './object.js';
+import {
+  applyPatchOperation,
+  commitToPatches,
+  type JsonPatchOperation,
+} from './jsonPatch.js';
+import { runMiddleware, type WatcherMiddleware } from './middleware.js';
+import { getPathValue } from './shared.js';
+import { createSubscriberTrie } from './subscriberTrie.js';
+
+export interface WatcherOptions<T extends Record<string, any>> {
+  /**
+   * Runs in order for every setState, setPath and clearPath. Each middleware
+   * can change the value, veto the write, or pass it on.
+   */
+  middleware?: WatcherMiddleware<T>[];
+  /**
+   * setState compares the old and new state to notify only the paths which
+   * changed. Below this many levels deep, a changed value is notified as a
+   * whole instead of being compared further. Defaults to no limit.
+   */
+  diffDepth?: number;
+}
+
+/**
+ * A single write that has been applied to the state.
+ */
+export type WatcherChange = {
+  /** the method which made the change */
+  type: 'setState' | 'setPath' | 'clearPath';
+  /** the path which changed, or null when the entire state was replaced */
+  path: string | null;
+  /** the value at the path before the change */
+  prevValue: any;
+  /** the value at the path after the change, undefined if it was cleared */
+  nextValue: any;
+  /**
+   * the origin passed to withOrigin when the change was made, so an
+   * integration can tell its own writes apart, even after a batch held them
+   */
+  origin?: unknown;
+};
+
+/**
+ * Passed to onCommit listeners after a write, or once at the end of a batch.
+ */
+export type WatcherCommit<T extends Record<string, any>> = {
+  /** each change, in the order it was made */
+  changes: WatcherChange[];
+  /** true when the changes were made inside batch() */
+  batched: boolean;
+  /** the state before the first change */
+  prevState: T;
+  /** the state after the last change */
+  state: T;
+};
+
+export type Subscriber = {
+  /** the path to watch, or several paths watched by one subscriber */
+  path?: string | string[];
+  fn: Function;
+  opts?: { skipMountTracking?: boolean };
+};
+
+/**
+ * The framework-agnostic part of a store: state, subscribers, batching and
+ * the write pipeline. Shared by watcherStore and useWatcherMap so that
+ * hook-scoped and global stores behave the same.
+ */
+export const createStoreCore = <T extends Record<string, any>>(
+  defaultValue: T,
+  options: WatcherOptions<T> = {}
+) => {
+  let state = defaultValue;
+  const subscribers = createSubscriberTrie<Subscriber>();
+  // while a batch is open, notifications and changes are held until the
+  // outermost batch completes
+  let batchDepth = 0;
+  let batchedPaths: string[] | null = null;
+  let batchedChanges: WatcherChange[] | null = null;
+  let batchPrevState = state;
+  let commitListeners: ((commit: WatcherCommit<T>) => void)[] = [];
+  // the origin of writes made inside withOrigin, stamped on their changes
+  let origin: unknown = undefined;
+  const middleware = options.middleware ?? [];
+
+  // --- helper fns ---
+
+  const addSubscriber = (
+    fn: Function,
+    path?: string | string[],
+    opts?: { skipMountTracking?: boolean }
+  ) => {
+    subscribers.add({ path, fn, opts });
+  };
+
+  const removeSubscriber = (fn: Function) => {
+    subscribers.remove(fn);
+  };
+
+  const getSubscriber = (fn: Function) => subscribers.get(fn);
+
+  const getSubscribers = () => subscribers.values();
+
+  /**
+   * each path that's being updated should be a full path, not parts
+   *
+   * ✅ - ["todos.0.completed"]
+   * ❌ - ["todos", "todos.0", "todos.0.completed"]
+   */
+  const notifySubscribers = (value: T, paths: string[]) => {
+    // if we're in a batch, delay the notification until the batch is complete
+    if (batchedPaths) {
+      batchedPaths.push(...paths);
+      return;
+    }
+
+    subscribers.notify(value, paths);
+  };
+
+  const emitCommit = (commit: WatcherCommit<T>) => {
+    for (const listener of commitListeners) {
+      listener(commit);
+    }
+  };
+
+  /**
+   * record a change that's just been applied. Outside a batch, listeners are
+   * told straight away, inside a batch they're told when the batch completes.
+   */
+  const commitChange = (untagged: WatcherChange, prevState: T) => {
+    const change = origin === undefined ? untagged : { ...untagged, origin };
+    if (batchedChanges) {
+      batchedChanges.push(change);
+      return;
+    }
+
+    emitCommit({ changes: [change], batched: false, prevState, state });
+  };
+
+  const onCommit = (listener: (commit: WatcherCommit<T>) => void) => {
+    commitListeners.push(listener);
+
+    return () => {
+      commitListeners = commitListeners.filter(l => l !== listener);
+    };
+  };
+
+  const onPatch = (
+    listener: (
+      patches: JsonPatchOperation[],
+      inversePatches: JsonPatchOperation[]
+    ) => void
+  ) =>
+    onCommit(commit => {
+      const [patches, inversePatches] = commitToPatches(commit);
+      if (patches.length > 0) {
+        listener(patches, inversePatches);
+      }
+    });
+
+  const getState = () => state;
+
+  const getPath = (path: string): any => {
+    return getPathValue(state, path);
+  };
+
+  const startBatch = () => {
+    if (batchDepth === 0) {
+      batchedPaths = [];
+      batchedChanges = [];
+      batchPrevState = state;
+    }
+    batchDepth++;
+  };
+
+  /**
+   * close a batch. When the outermost batch closes, notify subscribers and
+   * commit listeners once, with the final state.
+   */
+  const endBatch = () => {
+    batchDepth--;
+    if (batchDepth > 0) {
+      return;
+    }
+
+    const paths = [...new Set(batchedPaths)];
+    const changes = batchedChanges ?? [];
+    batchedPaths = null;
+    batchedChanges = null;
+    if (changes.length > 0) {
+      notifySubscribers(state, paths);
+      emitCommit({ changes, batched: true, prevState: batchPrevState, state });
+    }
+  };
+
+  /**
+   * batch - make multiple updates and notify subscribers once at the end.
+   * A batch inside another batch joins the outer one. Returns fn's result.
+   *
+   * If fn throws, the updates made before the error are kept and notified,
+   * then the error is re-thrown. Use transaction to undo them instead.
+   */
+  const batch = <R>(fn: () => R): R => {
+    startBatch();
+    try {
+      return fn();
+    } finally {
+      endBatch();
+    }
+  };
+
+  /**
+   * transaction - like batch, but if fn throws the state is restored to what
+   * it was before fn ran, none of its updates are notified, and the error is
+   * re-thrown.
+   */
+  const transaction = <R>(fn: () => R): R => {
+    startBatch();
+    const prevState = state;
+    const pathCount = batchedPaths!.length;
+    const changeCount = batchedChanges!.length;
+    try {
+      return fn();
+    } catch (error) {
+      // drop everything since the transaction started, an outer batch keeps
+      // its own updates
+      state = prevState;
+      batchedPaths!.length = pathCount;
+      batchedChanges!.length = changeCount;
+      throw error;
+    } finally {
+      endBatch();
+    }
+  };
+
+  /**
+   * batchAsync - like batch, but holds notifications across awaits and
+   * notifies once when the returned promise settles.
+   *
+   * While it's open, every write to the store is held, including writes
+   * from other code. If fn hasn't settled after `timeout` ms (default 10s),
+   * the held notifications are released and the promise rejects.
+   */
+  const batchAsync = <R>(
+    fn: () => Promise<R>,
+    options: { timeout?: number } = {}
+  ): Promise<R> => {
+    const timeout = options.timeout ?? 10000;
+    let isOpen = true;
+    const release = () => {
+      if (isOpen) {
+        isOpen = false;
+        endBatch();
+      }
+    };
+
+    startBatch();
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        release();
+        reject(new Error(`batchAsync timed out after ${timeout}ms`));
+      }, timeout);
+      const settle = (fn: () => void) => {
+        clearTimeout(timer);
+        release();
+        fn();
+      };
+
+      try {
+        fn().then(
+          value => settle(() => resolve(value)),
+          error => settle(() => reject(error))
+        );
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    });
+  };
+
+  /**
+   * withOrigin - tag every change fn makes with origin, for commit listeners
+   * to filter on. Only synchronous writes are tagged. Returns fn's result.
+   */
+  const withOrigin = <R>(nextOrigin: unknown, fn: () => R): R => {
+    const prevOrigin = origin;
+    origin = nextOrigin;
+    try {
+      return fn();
+    } finally {
+      origin = prevOrigin;
+    }
+  };
+
+  /**
+   * setState - OVERRIDES the entire state and notifies subscribers of the
+   * paths which changed. Paths whose value keeps the same reference are not
+   * notified.
+   */
+  const setState = (value: T) => {
+    runMiddleware(
+      middleware,
+      {
+        type: 'setState',
+        path: null,
+        prevValue: state,
+        nextValue: value,
+        state,
+      },
+      (nextValue: T) => {
+        const prevState = state;
+        // update the state
+        state = nextValue;
+        // walk the old and new state to find the paths which changed.
+        // unchanged branches keep their reference and are skipped, removed
+        // keys are included
+        const paths = getChangedPaths(prevState, nextValue, options.diffDepth);
+        // notify subscribers of the changes
+        notifySubscribers(nextValue, paths);
+        commitChange(
+          { type: 'setState', path: null, prevValue: prevState, nextValue },
+          prevState
+        );
+      }
+    );
+  };
+
+  /**
+   * write a value at a path through the middleware, then notify the paths
+   * returned by getPaths, given the value the middleware let through
+   */
+  const writePath = (
+    path: string,
+    value: any,
+    getPaths: (prevValue: any, nextValue: any) => string[]
+  ) => {
+    runMiddleware(
+      middleware,
+      {
+        type: 'setPath',
+        path,
+        prevValue: getPath(path),
+        nextValue: value,
+        state,
+      },
+      nextValue => {
+        const prevState = state;
+        const prevValue = getPath(path);
+        if (typeof state === 'undefined' || state === null) {
+          state = {} as T;
+        }
+
+        const pathParts = path.split('.');
+        state = setDeepPathClone(state, pathParts, nextValue) as T;
+
+        notifySubscribers(state, getPaths(prevValue, nextValue));
+        commitChange(
+          { type: 'setPath', path, prevValue, nextValue },
+          prevState
+        );
+      }
+    );
+  };
+
+  /**
+   * setPath - updates a specific path in the state and notifies subscribers
+   * of the changes.
+   */
+  const setPath = (path: string, value: any) => {
+    writePath(path, value, () => [path]);
+  };
+
+  /**
+   * update the array at a path with a copy, then notify only the indices
+   * which changed, and the length if it changed. Subscribers of items which
+   * kept their index are not called.
+   *
+   * It goes through the middleware as a setPath of the whole array.
+   */
+  const updateArray = (
+    method: string,
+    path: string,
+    update: (array: any[]) => void
+  ) => {
+    const array = getPath(path) ?? [];
+    if (!Array.isArray(array)) {
+      throw new Error(`Cannot ${method} "${path}", it is not an array`);
+    }
+
+    const nextArray = [...array];
+    update(nextArray);
+    if (getChangedIndices(array, nextArray).length === 0) {
+      return;
+    }
+
+    writePath(path, nextArray, (prevValue, nextValue) => {
+      if (!Array.isArray(prevValue) || !Array.isArray(nextValue)) {
+        return [path];
+      }
+
+      const paths = getChangedIndices(prevValue, nextValue).map(
+        index => `${path}.${index}`
+      );
+      if (prevValue.length !== nextValue.length) {
+        paths.push(`${path}.length`);
+      }
+      // the array is still a new copy, so notify its subscribers
+      return paths.length > 0 ? paths : [path];
+    });
+  };
+
+  /** pushPath - add items to the end of the array at a path */
+  const pushPath = (path: string, ...items: any[]) => {
+    updateArray('pushPath', path, array => array.push(...items));
+  };
+
+  /**
+   * insertAtPath - insert items into the array at a path, shifting the items
+   * after index along
+   */
+  const insertAtPath = (path: string, index: number, ...items: any[]) => {
+    updateArray('insertAtPath', path, array =>
+      array.splice(index, 0, ...items)
+    );
+  };
+
+  /**
+   * removeAtPath - remove `count` items from the array at a path, shifting
+   * the items after them back
+   */
+  const removeAtPath = (path: string, index: number, count = 1) => {
+    updateArray('removeAtPath', path, array => array.splice(index, count));
+  };
+
+  /**
+   * movePath - move an item in the array at a path from one index to
+   * another. Only the indices between from and to are notified.
+   */
+  const movePath = (path: string, from: number, to: number) => {
+    updateArray('movePath', path, array => {
+      if (from < 0 || from >= array.length || to < 0 || to >= array.length) {
+        throw new Error(
+          `Cannot move "${path}" from ${from} to ${to}, the index is out of bounds`
+        );
+      }
+      const [item] = array.splice(from, 1);
+      array.splice(to, 0, item);
+    });
+  };
+
+  /**
+   * splicePath - Array.prototype.splice for the array at a path, remove
+   * deleteCount items from start and insert items in their place
+   */
+  const splicePath = (
+    path: string,
+    start: number,
+    deleteCount: number,
+    ...items: any[]
+  ) => {
+    updateArray('splicePath', path, array =>
+      array.splice(start, deleteCount, ...items)
+    );
+  };
+
+  /**
+   * clearPath - removes a specific path from the state and notifies
+   * subscribers of the changes. If a middleware replaces the undefined value
+   * with something else, that value is set at the path instead.
+   */
+  const clearPath = (path: string, removeEmptyObjects = false) => {
+    if (typeof state === 'undefined' || state === null) {
+      return;
+    }
+
+    runMiddleware(
+      middleware,
+      {
+        type: 'clearPath',
+        path,
+        prevValue: getPath(path),
+        nextValue: undefined,
+        state,
+      },
+      nextValue => {
+        const prevState = state;
+        const prevValue = getPath(path);
+        const pathParts = path.split('.');
+        state = (
+          nextValue === undefined
+            ? deleteDeepPathClone(state, pathParts, removeEmptyObjects)
+            : setDeepPathClone(state, pathParts, nextValue)
+        ) as T;
+
+        notifySubscribers(state, [path]);
+        commitChange(
+          { type: 'clearPath', path, prevValue, nextValue },
+          prevState
+        );
+      }
+    );
+  };
+
+  /**
+   * applyPatches - apply JSON Patch (RFC 6902) operations in a single
+   * transaction. If any operation fails, including a `test`, none of them
+   * are applied and the error is re-thrown.
+   */
+  const applyPatches = (patches: JsonPatchOperation[]) => {
+    transaction(() => {
+      for (const patch of patches) {
+        applyPatchOperation({ getState, setState, setPath, clearPath }, patch);
+      }
+    });
+  };
+
+  return {
+    addSubscriber,
+    applyPatches,
+    batch,
+    batchAsync,
+    clearPath,
+    getPath,
+    getState,
+    getSubscriber,
+    getSubscribers,
+    insertAtPath,
+    movePath,
+    onCommit,
+    onPatch,
+    pushPath,
+    removeAtPath,
+    removeSubscriber,
+    setPath,
+    setState,
+    splicePath,
+    transaction,
+    withOrigin,
+  };
+};
+
+export type StoreCore<T extends Record<string, any>> = ReturnType<
+  typeof createStoreCore<T>
+>;
@@ -0,0 +1,170 @@
+import { createContext, useContext, type ReactNode } from 'react';
+
+type ScopeableStore = {
+  getState: () => any;
+  setState: (data: any) => void;
+};
+
+export interface ScopedStore<S extends ScopeableStore> {
+  /** names the store's state in dehydrate and hydrate */
+  key: string;
+  /** create a new instance of the store */
+  create: () => S;
+  /**
+   * the instance in the nearest StoreScopeProvider. Outside of a provider it
+   * is the default scope's, which is shared by every caller
+   */
+  useStore: () => S;
+}
+
+export interface StoreScope {
+  /** the scope's instance of a scoped store, created on first use */
+  get: <S extends ScopeableStore>(store: ScopedStore<S>) => S;
+
+  /* --- internal fns, do not call directly, exported for testing --- */
+
+  /** the state of every store in the scope, by key */
+  __dehydrate__: () => Record<string, unknown>;
+  /** set the state of the scope's stores, including ones not created yet */
+  __hydrate__: (data: Record<string, unknown>) => void;
+}
+
+/**
+ * Create a scope to hold one instance of each scoped store, eg. per request
+ * on a server, so one request's state never leaks into another's.
+ *
+ * @example
+ * // server.tsx
+ * const scope = createStoreScope();
+ * scope.get(appStore).setPath('user', await getUser(request));
+ * const html = renderToString(
+ *   <StoreScopeProvider scope={scope}>
+ *     <App />
+ *   </StoreScopeProvider>
+ * );
+ * const state = JSON.stringify(dehydrate(scope));
+ */
+export const createStoreScope = (): StoreScope => {
+  const instances = new Map<
+    string,
+    { store: ScopedStore<any>; instance: ScopeableStore }
+  >();
+  // hydrated state for stores which haven't been created yet
+  const pending = new Map<string, unknown>();
+
+  const get = <S extends ScopeableStore>(store: ScopedStore<S>): S => {
+    const existing = instances.get(store.key);
+    if (existing) {
+      if (existing.store !== store) {
+        throw new Error(
+          `Cannot get scoped store "${store.key}", another scoped store has the same key`
+        );
+      }
+      return existing.instance as S;
+    }
+
+    const instance = store.create();
+    if (pending.has(store.key)) {
+      instance.setState(pending.get(store.key));
+      pending.delete(store.key);
+    }
+    instances.set(store.key, { store, instance });
+    return instance;
+  };
+
+  const dehydrateScope = () => {
+    const data: Record<string, unknown> = Object.fromEntries(pending);
+    for (const [key, { instance }] of instances) {
+      data[key] = instance.getState();
+    }
+    return data;
+  };
+
+  const hydrateScope = (data: Record<string, unknown>) => {
+    for (const [key, state] of Object.entries(data)) {
+      const existing = instances.get(key);
+      if (existing) {
+        existing.instance.setState(state);
+      } else {
+        pending.set(key, state);
+      }
+    }
+  };
+
+  return {
+    get,
+    // internal fns, do not call directly
+    __dehydrate__: dehydrateScope,
+    __hydrate__: hydrateScope,
+  };
+};
+
+// used outside of a StoreScopeProvider, eg. by a client which renders once
+const defaultScope = createStoreScope();
+
+const StoreScopeContext = createContext<StoreScope>(defaultScope);
+
+/** Scoped stores used below the provider are the scope's instances */
+export const StoreScopeProvider = ({
+  scope,
+  children,
+}: {
+  scope: StoreScope;
+  children?: ReactNode;
+}) => (
+  <StoreScopeContext.Provider value={scope}>
+    {children}
+  </StoreScopeContext.Provider>
+);
+
+/**
+ * Define a store which has one instance per scope, instead of one per module.
+ * Components read it with useStore, from the nearest StoreScopeProvider.
+ *
+ * @param key - Unique name for the store's state in dehydrate and hydrate
+ * @param create - Creates a new instance, eg. with watcherStore
+ *
+ * @example
+ * export const appStore = scopedStore('app', () =>
+ *   watcherStore({ user: null as User | null })
+ * );
+ *
+ * // Header.tsx
+ * const user = appStore.useStore().usePath('user');
+ */
+export const scopedStore = <S extends ScopeableStore>(
+  key: string,
+  create: () => S
+): ScopedStore<S> => {
+  const store: ScopedStore<S> = {
+    key,
+    create,
+    useStore: () => useContext(StoreScopeContext).get(store),
+  };
+  return store;
+};
+
+/**
+ * The state of every store in a scope, by key, to serialize into the
+ * server's HTML. Each store's state must be JSON serializable.
+ */
+export const dehydrate = (scope: StoreScope) => scope.__dehydrate__();
+
+/**
+ * Move dehydrated state into a scope's stores. Call it on the client before
+ * hydrating, so the first render matches the server's HTML. Stores which
+ * haven't been created yet get their state when they are.
+ *
+ * @example
+ * // client.tsx
+ * const scope = createStoreScope();
+ * hydrate(scope, window.__STORE_STATE__);
+ * hydrateRoot(
+ *   document.getElementById('root')!,
+ *   <StoreScopeProvider scope={scope}>
+ *     <App />
+ *   </StoreScopeProvider>
+ * );
+ */
+export const hydrate = (scope: StoreScope, data: Record<string, unknown>) =>
+  scope.__hydrate__(data);
@@ -0,0 +1,214 @@
+import { getPathValue } from './shared.js';
+
+type TrieSubscriber = { path?: string | string[]; fn: Function };
+
+type TrieNode<S> = {
+  children: Map<string, TrieNode<S>>;
+  subscribers: Set<S>;
+};
+
+const createNode = <S>(): TrieNode<S> => ({
+  children: new Map(),
+  subscribers: new Set(),
+});
+
+/**
+ * A subscriber registry indexed by path segment, eg. a subscriber of
+ * "todos.0.completed" is stored under todos -> 0 -> completed.
+ *
+ * Notifying a path only visits its ancestors and descendants, rather than
+ * every subscriber, and matches whole segments, so a write to "username"
+ * doesn't reach subscribers of "user", and "todos.10" doesn't reach
+ * "todos.1".
+ *
+ * A "*" segment matches any one key, and "**" any keys one or more levels
+ * deep, eg. "todos.*.completed" is notified by a write to "todos.3" or
+ * "todos.3.completed", and is called with every matching value. A "**"
+ * subscriber is notified by any write under the part before it, eg.
+ * "users.**.name" by a write to "users.1.age", as it can't tell which
+ * writes change the values it matches.
+ *
+ * A subscriber with several paths is stored under each of them, but is
+ * still only called once per notify, with an array of the values.
+ *
+ * Subscribers without a path watch the entire state and are notified on
+ * every write. Each fn is registered once, the first registration wins.
+ */
+export const createSubscriberTrie = <S extends TrieSubscriber>() => {
+  const root = createNode<S>();
+  // registration order, so subscribers are always called in the order they
+  // subscribed
+  const entries = new Map<Function, { subscriber: S; order: number }>();
+  let nextOrder = 0;
+
+  // --- helper fns ---
+
+  const getNode = (path: string, create: boolean) => {
+    let node: TrieNode<S> | undefined = root;
+    for (const segment of path.split('.')) {
+      let child: TrieNode<S> | undefined = node.children.get(segment);
+      if (!child && create) {
+        child = createNode<S>();
+        node.children.set(segment, child);
+      }
+      if (!child) {
+        return undefined;
+      }
+      node = child;
+    }
+    return node;
+  };
+
+  // a repeated path is stored once, as the node's Set dedupes it, so it
+  // must only be removed once too
+  const getPaths = (subscriber: S): string[] =>
+    subscriber.path === undefined
+      ? []
+      : typeof subscriber.path === 'string'
+        ? [subscriber.path]
+        : [...new Set(subscriber.path)];
+
+  const collectSubscribers = (node: TrieNode<S>, matched: Set<S>) => {
+    for (const subscriber of node.subscribers) {
+      matched.add(subscriber);
+    }
+  };
+
+  const collectDescendants = (node: TrieNode<S>, matched: Set<S>) => {
+    for (const child of node.children.values()) {
+      collectSubscribers(child, matched);
+      collectDescendants(child, matched);
+    }
+  };
+
+  const collectPath = (
+    node: TrieNode<S>,
+    segments: string[],
+    index: number,
+    matched: Set<S>
+  ) => {
+    // child matches, eg. "todos.0.tags.0", but not siblings like
+    // "todos.0.completed"
+    if (index === segments.length) {
+      collectDescendants(node, matched);
+      return;
+    }
+
+    // parent and exact matches, eg. "todos", "todos.0", "todos.0.tags" for
+    // a write to "todos.0.tags". "*" matches any one segment
+    for (const key of [segments[index], '*']) {
+      const child = node.children.get(key);
+      if (child) {
+        collectSubscribers(child, matched);
+        collectPath(child, segments, index + 1, matched);
+      }
+    }
+
+    // "**" matches any depth, so everything under it may be affected
+    const anyDepth = node.children.get('**');
+    if (anyDepth) {
+      collectSubscribers(anyDepth, matched);
+      collectDescendants(anyDepth, matched);
+    }
+  };
+
+  /**
+   * each path that's being updated should be a full path, not parts
+   *
+   * ✅ - ["todos.0.completed"]
+   * ❌ - ["todos", "todos.0", "todos.0.completed"]
+   */
+  const collect = (paths: string[]) => {
+    // subscribers of the entire state are stored on the root
+    const matched = new Set<S>(root.subscribers);
+
+    for (const path of paths) {
+      collectPath(root, path.split('.'), 0, matched);
+    }
+
+    return [...matched].sort(
+      (a, b) => entries.get(a.fn)!.order - entries.get(b.fn)!.order
+    );
+  };
+
+  const add = (subscriber: S) => {
+    if (entries.has(subscriber.fn)) {
+      return;
+    }
+
+    entries.set(subscriber.fn, { subscriber, order: nextOrder++ });
+    if (!subscriber.path) {
+      root.subscribers.add(subscriber);
+      return;
+    }
+    for (const path of getPaths(subscriber)) {
+      getNode(path, true)!.subscribers.add(subscriber);
+    }
+  };
+
+  // remove the subscriber from a path, then prune any branches it leaves
+  // empty
+  const removeFromPath = (subscriber: S, path: string) => {
+    const trail: [TrieNode<S>, string][] = [];
+    let node = root;
+    for (const segment of path.split('.')) {
+      trail.push([node, segment]);
+      node = node.children.get(segment)!;
+    }
+    node.subscribers.delete(subscriber);
+
+    for (let i = trail.length - 1; i >= 0; i--) {
+      const [parent, segment] = trail[i];
+      const child = parent.children.get(segment)!;
+      if (child.subscribers.size > 0 || child.children.size > 0) {
+        break;
+      }
+      parent.children.delete(segment);
+    }
+  };
+
+  const remove = (fn: Function) => {
+    const entry = entries.get(fn);
+    if (!entry) {
+      return;
+    }
+
+    entries.delete(fn);
+    if (!entry.subscriber.path) {
+      root.subscribers.delete(entry.subscriber);
+      return;
+    }
+    for (const path of getPaths(entry.subscriber)) {
+      removeFromPath(entry.subscriber, path);
+    }
+  };
+
+  const get = (fn: Function) => entries.get(fn)?.subscriber;
+
+  const values = () => [...entries.values()].map(entry => entry.subscriber);
+
+  const size = () => entries.size;
+
+  /**
+   * call each subscriber affected by the paths once, with the value at the
+   * path it's watching, or the values at each of its paths
+   */
+  const notify = (value: unknown, paths: string[]) => {
+    for (const subscriber of collect(paths)) {
+      const { path } = subscriber;
+      subscriber.fn(
+        !path
+          ? value
+          : typeof path === 'string'
+            ? getPathValue(value, path)
+            : path.map(p => getPathValue(value, p))
+      );
+    }
+  };
+
+  return { add, collect, get, notify, remove, size, values };
+};
+
+export type SubscriberTrie<S extends TrieSubscriber> = ReturnType<
+  typeof createSubscriberTrie<S>
+>;
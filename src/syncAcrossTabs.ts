@@ -0,0 +1,175 @@
+import { scopeChange } from './shared.js';
+import type { WatcherChange } from './storeCore.js';
+import type { WatcherCore } from './watcherBase.js';
+
+/** a single path-level update sent between tabs */
+export type SyncUpdate = {
+  path: string;
+  /** undefined when the path was cleared */
+  value: any;
+};
+
+export type SyncMessage = {
+  /** id of the tab which made the change, used to ignore our own messages */
+  source: string;
+  updates: SyncUpdate[];
+};
+
+/**
+ * How messages travel between tabs. Defaults to a BroadcastChannel, inject
+ * your own to sync over something else or to test in a single process.
+ */
+export interface SyncTransport {
+  postMessage: (message: SyncMessage) => void;
+  /** listen for messages from other tabs, returns an unsubscribe fn */
+  subscribe: (listener: (message: SyncMessage) => void) => () => void;
+  /** release the transport, called when syncing stops */
+  close?: () => void;
+}
+
+export interface SyncOptions {
+  /** the channel name, every tab syncing a store must use the same name */
+  channel: string;
+  /** only sync these paths, eg. ['auth', 'theme']. Defaults to everything */
+  paths?: string[];
+  /** defaults to a BroadcastChannel named `channel` */
+  transport?: SyncTransport;
+}
+
+/**
+ * A SyncTransport over the browser's BroadcastChannel. The channel doesn't
+ * deliver messages back to the tab which sent them.
+ */
+export const createBroadcastChannelTransport = (
+  channel: string
+): SyncTransport => {
+  const broadcastChannel = new BroadcastChannel(channel);
+
+  return {
+    postMessage: message => broadcastChannel.postMessage(message),
+    subscribe: listener => {
+      const onMessage = (event: MessageEvent<SyncMessage>) =>
+        listener(event.data);
+      broadcastChannel.addEventListener('message', onMessage);
+      return () => broadcastChannel.removeEventListener('message', onMessage);
+    },
+    close: () => broadcastChannel.close(),
+  };
+};
+
+/**
+ * setState is sent as an update for each top-level key which changed, rather
+ * than the entire state
+ */
+const splitStateChange = (change: WatcherChange): WatcherChange[] => {
+  if (change.path !== null) {
+    return [change];
+  }
+
+  const prevState = change.prevValue ?? {};
+  const nextState = change.nextValue ?? {};
+  const keys = new Set([...Object.keys(prevState), ...Object.keys(nextState)]);
+
+  return [...keys]
+    .filter(key => prevState[key] !== nextState[key])
+    .map(key => ({
+      type: key in nextState ? 'setPath' : 'clearPath',
+      path: key,
+      prevValue: prevState[key],
+      nextValue: nextState[key],
+    }));
+};
+
+let tabCount = 0;
+const createSourceId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${tabCount++}`;
+
+/**
+ * Keep a store consistent between browser tabs. Each change is sent as
+ * path-level updates, and applied in the other tabs with setPath / clearPath,
+ * so only subscribers of the changed paths re-render.
+ *
+ * Updates received from other tabs are not sent back out, so tabs don't echo
+ * changes to each other.
+ *
+ * @returns a function which stops syncing
+ *
+ * @example
+ * const stopSyncing = syncAcrossTabs(appStore, {
+ *   channel: 'app-store',
+ *   paths: ['auth', 'theme'],
+ * });
+ */
+export const syncAcrossTabs = <T extends Record<string, any>>(
+  store: WatcherCore<T>,
+  options: SyncOptions
+) => {
+  const { channel, paths } = options;
+  const transport =
+    options.transport ?? createBroadcastChannelTransport(channel);
+  const source = createSourceId();
+  // tags updates from another tab, so we don't echo them back, even when an
+  // open batch holds them until later
+  const origin = Symbol('syncAcrossTabs');
+
+  // --- helper fns ---
+
+  const toUpdates = (changes: WatcherChange[]): SyncUpdate[] =>
+    changes
+      .flatMap(splitStateChange)
+      .flatMap(change =>
+        paths
+          ? paths
+              .map(path => scopeChange(change, path))
+              .filter((c): c is WatcherChange => c !== null)
+          : [change]
+      )
+      .filter(change => change.prevValue !== change.nextValue)
+      .map(change => ({
+        path: change.path as string,
+        value: change.nextValue,
+      }));
+
+  const unsubscribeCommit = store.onCommit(({ changes }) => {
+    const updates = toUpdates(
+      changes.filter(change => change.origin !== origin)
+    );
+    if (updates.length > 0) {
+      transport.postMessage({ source, updates });
+    }
+  });
+
+  const unsubscribeTransport = transport.subscribe(message => {
+    if (message.source === source) {
+      return;
+    }
+
+    // only accept the paths we sync, another tab may be configured differently
+    const updates = toUpdates(
+      message.updates.map(update => ({
+        type: 'setPath',
+        path: update.path,
+        prevValue: store.getPath(update.path as never),
+        nextValue: update.value,
+      }))
+    );
+
+    store.withOrigin(origin, () =>
+      store.batch(() => {
+        for (const update of updates) {
+          if (update.value === undefined) {
+            store.clearPath(update.path as never);
+          } else {
+            store.setPath(update.path as never, update.value as never);
+          }
+        }
+      })
+    );
+  });
+
+  return () => {
+    unsubscribeCommit();
+    unsubscribeTransport();
+    transport.close?.();
+  };
+};
@@ -1,40 +1,44 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { createHooks } from './createHooks.js';
 import {
-  useCallback,
-  useEffect,
-  useMemo,
-  useRef,
-  useSyncExternalStore,
-} from 'react';
-import { getDeepPath, isShallowEqual } from './object';
-import {
+  createSubscribe,
   getDependencyValue,
-  notifyPathSubscribers,
+  getEqualityFn,
+  getPathValue,
   subscribeToDependency,
-} from './shared';
-import { WatcherStore } from './watcherStore';
-import { WatcherMap } from './useWatcherMap';
-import { WatcherPrimitive } from './useWatcherPrimitive';
-
-export interface WatcherComputed<T> {
-  /** get the entire computed state */
-  getState: () => T;
-  /** get a specific path from the computed state */
-  getPath: (path: string) => any;
+} from './shared.js';
+import { createSubscriberTrie } from './subscriberTrie.js';
+import { WatcherStore } from './watcherStore.js';
+import { WatcherMap } from './useWatcherMap.js';
+import { WatcherPrimitive } from './useWatcherPrimitive.js';
+import type {
+  ComputedOptions,
+  VanillaComputed,
+} from './vanillaComputedStore.js';
+
+export type { ComputedOptions } from './vanillaComputedStore.js';
+
+export interface WatcherComputed<T> extends VanillaComputed<T> {
   /** useState will re-render the component when the computed state changes */
   useState: () => T;
   /** usePath will re-render the component when the specified path changes */
   usePath: (path: string) => any;
+  /**
+   * useStateSuspense is useState for React Suspense. While the computed
+   * state is a pending promise, the component suspends, and a rejected one
+   * is thrown to the error boundary
+   *
+   * @example
+   * const user = computedStore(store, ({ id }) => fetchUser(id));
+   * const data = user.useStateSuspense(); // the resolved User
+   */
+  useStateSuspense: () => Awaited<T>;
+  /** usePathSuspense is usePath for React Suspense, like useStateSuspense */
+  usePathSuspense: (path: string) => any;
   /** watchState will call the supplied function when the computed state changes */
   watchState: (fn: (value: T) => void) => void;
   /** watchPath will call the supplied function when the computed path changes */
   watchPath: (path: string, fn: (value: any) => void) => void;
-
-  /* --- internal fns, do not call directly, exported for testing --- */
-
-  /** manually add a subscriber to the computed store */
-  __addSubscriber__: (fn: Function, path?: string) => void;
-  /** manually remove a subscriber from the computed store */
-  __removeSubscriber__: (fn: Function) => void;
 }
 
 type PathSubscription = {
@@ -52,50 +56,51 @@ type Dependency =
 /**
  * Read-only derived watcher. `computeFn` runs when dependencies change.
  *
- * **WARNING** - skips update when new result is shallow-equal to previous state.
+ * **WARNING** - by default, skips update when new result is shallow-equal to
+ * previous state.
  * - isShallowEqual(['apples'], ['apples']) // true
  * - isShallowEqual([{ a: 1 }], [{ a: 1 }]) // false
  * - equivalent to a deep-equality check only a single level deep.
+ * - pass `{ isEqual: 'deep' }` to compare lists of objects by value
  * - to skip manually: return `prev` from computeFn (ref equality = no notify)
  *
+ * @param options - how to compare results, read on the first render only
+ *
  * @example
  * const veg = useComputed({ watcher: store, path: 'items' }, (items, _prev) =>
- *   items.filter(i => i.type === 'veg')
+ *   items.filter(i => i.type === 'veg'),
+ *   { isEqual: 'deep' }
  * );
  */
 export const useComputed = <T,>(
   dependency: Dependency | Dependency[],
-  computeFn: (value: any | any[], prev?: any | any[]) => T
+  computeFn: (value: any | any[], prev?: any | any[]) => T,
+  options: ComputedOptions<T> = {}
 ): WatcherComputed<T> => {
+  const isEqual = useRef(getEqualityFn(options.isEqual)).current;
   const state = useRef(computeFn(getDependencyValue(dependency), undefined));
-  const subscribers = useRef<{ path?: string; fn: Function }[]>([]);
+  const subscribers = useRef(
+    createSubscriberTrie<{ path?: string; fn: Function }>()
+  );
 
   // --- helper fns ---
 
   const addSubscriber = useCallback((fn: Function, path?: string) => {
-    if (!subscribers.current.some(sub => sub.fn === fn)) {
-      subscribers.current.push({ path, fn });
-    }
+    subscribers.current.add({ path, fn });
   }, []);
 
   const removeSubscriber = useCallback((fn: Function) => {
-    subscribers.current = subscribers.current.filter(sub => sub.fn !== fn);
+    subscribers.current.remove(fn);
   }, []);
 
   const notifySubscribers = (value: T, paths: string[]) => {
-    notifyPathSubscribers(subscribers.current, value, paths);
+    subscribers.current.notify(value, paths);
   };
 
-  const subscribe = useCallback((fn: Function) => {
-    addSubscriber(fn);
-
-    return () => removeSubscriber(fn);
-  }, []);
-
   const getState = useCallback(() => state.current, []);
 
   const getPath = useCallback((path: string): any => {
-    return getDeepPath(state.current, path.split('.'));
+    return getPathValue(state.current, path);
   }, []);
 
   useEffect(() => {
@@ -104,7 +109,7 @@ export const useComputed = <T,>(
         getDependencyValue(dependency),
         state.current
       );
-      if (isShallowEqual(state.current, nextState)) {
+      if (isEqual(state.current, nextState)) {
         return;
       }
 
@@ -115,48 +120,16 @@ export const useComputed = <T,>(
     return subscribeToDependency(dependency, updateComputed);
   }, [dependency, computeFn]);
 
-  // do not call setState from within this function or it will cause
-  // an infinite loop
-  const watchState = (fn: Function) =>
-    useEffect(() => {
-      addSubscriber(fn);
-
-      return () => removeSubscriber(fn);
-    }, []);
-
-  const watchPath = (path: string, fn: (value: any) => void) =>
-    useEffect(() => {
-      addSubscriber(fn, path);
-
-      return () => removeSubscriber(fn);
-    }, [path]);
-
-  const useState = () => useSyncExternalStore<T>(subscribe, getState);
-
-  const usePath = (path: string) => {
-    const subscribePath = useCallback(
-      (fn: Function) => {
-        addSubscriber(fn, path);
-        return () => removeSubscriber(fn);
-      },
-      [path]
-    );
-
-    const getPathSnapshot = useCallback(() => {
-      return getDeepPath(state.current, path.split('.'));
-    }, [path]);
-
-    return useSyncExternalStore(subscribePath, getPathSnapshot);
-  };
-
   return useMemo(
     () => ({
       getState,
       getPath,
-      useState,
-      usePath,
-      watchState,
-      watchPath,
+      ...createHooks({
+        getState,
+        __addSubscriber__: addSubscriber,
+        __removeSubscriber__: removeSubscriber,
+      }),
+      subscribe: createSubscribe({ getState, addSubscriber, removeSubscriber }),
       // internal fns, do not call directly
       __addSubscriber__: addSubscriber,
       __removeSubscriber__: removeSubscriber,
@@ -164,4 +137,3 @@ export const useComputed = <T,>(
     []
   );
 };
-
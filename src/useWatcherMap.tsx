@@ -1,21 +1,20 @@
+import { useMemo, useRef } from 'react';
+import { createHooks } from './createHooks.js';
+import { PathPatternOf } from './pathOf.js';
+import { createSubscribe } from './shared.js';
 import {
-  useCallback,
-  useEffect,
-  useMemo,
-  useRef,
-  useSyncExternalStore,
-} from 'react';
-import { getDeepPath, setDeepPathClone, deleteDeepPathClone } from './object';
-import { PathOf } from './pathOf';
-import { getUniqueBatchedUpdates, notifyPathSubscribers } from './shared';
-import { WatcherBase } from './watcherBase';
+  createStoreCore,
+  type StoreCore,
+  type WatcherOptions,
+} from './storeCore.js';
+import { WatcherBase } from './watcherBase.js';
 
 export interface WatcherMap<T extends Record<string, any>>
   extends WatcherBase<T> {
   /* --- internal fns, do not call directly, exported for testing  --- */
 
   /** manually add a subscriber to the store */
-  __addSubscriber__: (fn: Function, path?: PathOf<T>) => void;
+  __addSubscriber__: (fn: Function, path?: PathPatternOf<T>) => void;
   /** manually remove a subscriber from the store */
   __removeSubscriber__: (fn: Function) => void;
 }
@@ -25,6 +24,8 @@ export interface WatcherMap<T extends Record<string, any>>
  * Components using `usePath` only re-render when their specific path changes.
  *
  * @param defaultValue - The initial state object
+ * @param options - Optional middleware to run every write through, read on
+ *   the first render only
  * @returns A WatcherMap with getPath, setPath, usePath, watchPath, batch, etc.
  *
  * @example
@@ -35,157 +36,64 @@ export interface WatcherMap<T extends Record<string, any>>
  * watcher.setPath('user.name', 'Bob');
  */
 export const useWatcherMap = <T extends Record<string, any>>(
-  defaultValue: T
+  defaultValue: T,
+  options: WatcherOptions<T> = {}
 ): WatcherMap<T> => {
-  const state = useRef(defaultValue);
-  const subscribers = useRef<{ path?: string; fn: Function }[]>([]);
-  const batchedUpdates = useRef<{ value: T; paths: string[] }[] | null>(null);
-
-  // --- helper fns ---
-
-  const addSubscriber = useCallback((fn: Function, path?: string) => {
-    if (!subscribers.current.some(sub => sub.fn === fn)) {
-      subscribers.current.push({ path, fn });
-    }
-  }, []);
-
-  const removeSubscriber = useCallback((fn: Function) => {
-    subscribers.current = subscribers.current.filter(sub => sub.fn !== fn);
-  }, []);
-
-  /**
-   * each path that's being updated should be a full path, not parts
-   *
-   * ✅ - ["todos.0.completed"]
-   * ❌ - ["todos", "todos.0", "todos.0.completed"]
-   */
-  const notifySubscribers = (value: T, paths: string[]) => {
-    // if we're in a batch, delay the notification until the batch is complete
-    if (batchedUpdates.current) {
-      batchedUpdates.current.push({ value, paths });
-      return;
-    }
-
-    notifyPathSubscribers(subscribers.current, value, paths);
-  };
-
-  const subscribe = useCallback((fn: Function) => {
-    addSubscriber(fn);
-
-    return () => removeSubscriber(fn);
-  }, []);
-
-  const getState = useCallback(() => state.current, []);
-
-  const getPath = useCallback((path: string): any => {
-    return getDeepPath(state.current, path.split('.'));
-  }, []);
-
-  const batch = useCallback((fn: () => void) => {
-    if (batchedUpdates.current) {
-      throw new Error('Cannot batch updates inside a batch');
-    }
-    batchedUpdates.current = [];
-    fn();
-    // make a list of unique updates, take the last one for each path
-    const updates = getUniqueBatchedUpdates(batchedUpdates.current);
-    batchedUpdates.current = null;
-    updates.forEach(({ value, paths }) => notifySubscribers(value, paths));
-  }, []);
-
-  /**
-   * setState - OVERRIDES the entire state and notifies subscribers
-   * of the changes. This will trigger all paths that are being watched.
-   */
-  const setState = useCallback((value: T) => {
-    // update the state
-    state.current = value;
-    // determine what keys have changed in the map
-    // a user can call setValue({ a: 1, b: 2 })
-    // and subscribers of both a and b will be notified
-    const paths = Object.keys(value);
-    // notify subscribers of the changes
-    notifySubscribers(value, paths);
-  }, []);
-
-  /**
-   * setPath - updates a specific path in the state and notifies subscribers
-   * of the changes.
-   */
-  const setPath = useCallback((path: string, value: any) => {
-    if (typeof state.current === 'undefined' || state.current === null) {
-      state.current = {} as T;
-    }
-
-    const pathParts = path.split('.');
-    const newState = setDeepPathClone(state.current, pathParts, value);
-
-    state.current = newState;
-
-    notifySubscribers(state.current, [path]);
-  }, []);
-
-  const clearPath = useCallback((path: string, removeEmptyObjects = false) => {
-    if (typeof state.current === 'undefined' || state.current === null) {
-      return;
-    }
-
-    const pathParts = path.split('.');
-    state.current = deleteDeepPathClone(
-      state.current,
-      pathParts,
-      removeEmptyObjects
-    );
-
-    notifySubscribers(state.current, [path]);
-  }, []);
-
-  // do not call setState from within this function or it will cause
-  // an infinite loop
-  const watchState = (fn: Function) =>
-    useEffect(() => {
-      addSubscriber(fn);
-
-      return () => removeSubscriber(fn);
-    }, []);
-
-  const watchPath = (path: string, fn: (value: any) => void) =>
-    useEffect(() => {
-      addSubscriber(fn, path);
-
-      return () => removeSubscriber(fn);
-    }, [path]);
-
-  const useState = () => useSyncExternalStore<T>(subscribe, getState);
-
-  const usePath = (path: string) => {
-    const subscribePath = useCallback(
-      (fn: Function) => {
-        addSubscriber(fn, path);
-        return () => removeSubscriber(fn);
-      },
-      [path]
-    );
-
-    const getPathSnapshot = useCallback(() => {
-      return getDeepPath(state.current, path.split('.'));
-    }, [path]);
-
-    return useSyncExternalStore(subscribePath, getPathSnapshot);
-  };
+  const core = useRef<StoreCore<T> | null>(null);
+  if (!core.current) {
+    core.current = createStoreCore(defaultValue, options);
+  }
+  const {
+    addSubscriber,
+    applyPatches,
+    batch,
+    batchAsync,
+    clearPath,
+    getPath,
+    getState,
+    insertAtPath,
+    movePath,
+    onCommit,
+    onPatch,
+    pushPath,
+    removeAtPath,
+    removeSubscriber,
+    setPath,
+    setState,
+    splicePath,
+    transaction,
+    withOrigin,
+  } = core.current;
 
   return useMemo(
     () => ({
+      applyPatches,
       batch,
+      batchAsync,
       getState,
       getPath,
       setState,
       setPath,
       clearPath,
-      useState,
-      usePath,
-      watchState,
-      watchPath,
+      pushPath,
+      insertAtPath,
+      removeAtPath,
+      movePath,
+      splicePath,
+      transaction,
+      withOrigin,
+      subscribe: createSubscribe({
+        getState,
+        addSubscriber,
+        removeSubscriber,
+      }),
+      onCommit,
+      onPatch,
+      ...createHooks({
+        getState,
+        __addSubscriber__: addSubscriber,
+        __removeSubscriber__: removeSubscriber,
+      }),
       // internal fns, do not call directly
       __addSubscriber__: addSubscriber,
       __removeSubscriber__: removeSubscriber,
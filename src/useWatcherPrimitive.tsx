@@ -85,7 +85,7 @@ export const useWatcherPrimitive = <T extends unknown>(
   return {
     getState,
     setState,
-    useState: () => useSyncExternalStore<T>(subscribe, getState),
+    useState: () => useSyncExternalStore<T>(subscribe, getState, getState),
     watchState,
     // internal fns, do not call directly
     __addSubscriber__: addSubscriber,
@@ -0,0 +1,169 @@
+import {
+  createSubscribe,
+  getDependencyValue,
+  getEqualityFn,
+  getPathValue,
+  subscribeToDependency,
+} from './shared.js';
+import { createSubscriberTrie } from './subscriberTrie.js';
+import type { VanillaStore } from './vanillaStore.js';
+import type { SubscribeOptions } from './watcherBase.js';
+
+export interface VanillaComputed<T> {
+  /** get the entire computed state */
+  getState: () => T;
+  /** get a specific path from the computed state */
+  getPath: (path: string) => any;
+  /**
+   * subscribe calls the listener when the computed path changes, or with the
+   * entire computed state when the path is null. Returns an unsubscribe fn
+   */
+  subscribe: (
+    path: string | null,
+    listener: (value: any) => void,
+    options?: SubscribeOptions
+  ) => () => void;
+
+  /* --- internal fns, do not call directly, exported for testing --- */
+
+  /** manually add a subscriber to the computed store */
+  __addSubscriber__: (fn: Function, path?: string) => void;
+  /** manually remove a subscriber from the computed store */
+  __removeSubscriber__: (fn: Function) => void;
+}
+
+export interface ComputedOptions<T> {
+  /**
+   * how to compare a new result with the previous one, to skip notifying
+   * when it's unchanged. 'shallow' (default) uses isShallowEqual, 'deep'
+   * isDeepEqual and 'reference' Object.is
+   */
+  isEqual?: 'shallow' | 'deep' | 'reference' | ((prev: T, next: T) => boolean);
+}
+
+type VanillaPathSubscription = {
+  watcher: VanillaStore<any> | VanillaComputed<any>;
+  path: string;
+};
+
+export type VanillaComputedDependency =
+  | VanillaStore<any>
+  | VanillaComputed<any>
+  | VanillaPathSubscription;
+
+/**
+ * Read-only derived store with no React dependency. computedStore is this
+ * store plus the React hooks.
+ *
+ * Reads are lazy and do not subscribe to dependencies. Dependency subscriptions
+ * are only active while the computed store has live subscribers. Reads without
+ * subscribers only recompute when a dependency value changed.
+ *
+ * Results are compared with isShallowEqual unless `options.isEqual` says
+ * otherwise.
+ *
+ * @example
+ * const pending = vanillaComputedStore(
+ *   { watcher: jobs, path: 'queue' },
+ *   queue => queue.length
+ * );
+ * pending.subscribe(null, count => postMessage({ pending: count }));
+ */
+export const vanillaComputedStore = <T>(
+  dependency: VanillaComputedDependency | VanillaComputedDependency[],
+  computeFn: (value: any | any[], prev?: any | any[]) => T,
+  options: ComputedOptions<T> = {}
+): VanillaComputed<T> => {
+  const isEqual = getEqualityFn(options.isEqual);
+  let state: T | undefined = undefined;
+  let hasState = false;
+  const subscribers = createSubscriberTrie<{ path?: string; fn: Function }>();
+  let unsubscribeDependency: (() => void) | null = null;
+  // the dependency values state was computed from, so reads while unmounted
+  // only recompute when one of them changed, eg. a computed promise is kept
+  // while a component suspends on it
+  let computedFrom: unknown[] | null = null;
+
+  // --- helper fns ---
+
+  const isComputedFrom = (inputs: unknown[]) =>
+    computedFrom !== null &&
+    computedFrom.length === inputs.length &&
+    inputs.every((input, index) => Object.is(input, computedFrom![index]));
+
+  const refreshState = () => {
+    const value = getDependencyValue(dependency);
+    const inputs = Array.isArray(dependency) ? value : [value];
+    if (hasState && isComputedFrom(inputs)) {
+      return false;
+    }
+    computedFrom = inputs;
+
+    const nextState = computeFn(value, hasState ? state : undefined);
+    if (hasState && isEqual(state as T, nextState)) {
+      return false;
+    }
+
+    state = nextState;
+    hasState = true;
+    return true;
+  };
+
+  const updateComputed = () => {
+    if (!refreshState()) {
+      return;
+    }
+
+    subscribers.notify(state, Object.keys(Object(state)));
+  };
+
+  const mount = () => {
+    if (unsubscribeDependency) {
+      return;
+    }
+
+    refreshState();
+    unsubscribeDependency = subscribeToDependency(dependency, updateComputed);
+  };
+
+  const unmount = () => {
+    if (subscribers.size() > 0 || !unsubscribeDependency) {
+      return;
+    }
+
+    unsubscribeDependency();
+    unsubscribeDependency = null;
+  };
+
+  const addSubscriber = (fn: Function, path?: string) => {
+    subscribers.add({ path, fn });
+
+    mount();
+  };
+
+  const removeSubscriber = (fn: Function) => {
+    subscribers.remove(fn);
+    unmount();
+  };
+
+  const getState = () => {
+    if (!unsubscribeDependency) {
+      refreshState();
+    }
+
+    return state as T;
+  };
+
+  const getPath = (path: string): any => {
+    return getPathValue(getState(), path);
+  };
+
+  return {
+    getState,
+    getPath,
+    subscribe: createSubscribe({ getState, addSubscriber, removeSubscriber }),
+    // internal fns, do not call directly
+    __addSubscriber__: addSubscriber,
+    __removeSubscriber__: removeSubscriber,
+  };
+};
@@ -0,0 +1,216 @@
+import type { PathOf, PathPatternOf } from './pathOf.js';
+import { createSubscribe, isPathWithin } from './shared.js';
+import {
+  createStoreCore,
+  type Subscriber,
+  type WatcherOptions,
+} from './storeCore.js';
+import type { WatcherCore } from './watcherBase.js';
+
+/** called on mount, and may return a function to call on unmount */
+export type MountFn = () => void | (() => void);
+
+// onMount handlers have a null path, onPathMount handlers the path they
+// watch. count is the number of mounted subscribers which match
+type MountHandler = {
+  path: string | null;
+  fn: MountFn;
+  count: number;
+  cleanup: (() => void) | null;
+};
+
+export interface VanillaStore<T extends Record<string, any>>
+  extends WatcherCore<T> {
+  /**
+   * onMount will call the supplied function when the store is mounted.
+   *
+   * ie. the store gets its first subscriber, eg. from subscribe, or from
+   * useState, usePath, watchState or watchPath within a component.
+   *
+   * If the mountFn returns a function, that function will be called when the
+   * store is unmounted.
+   *
+   * Every mountFn is kept. One added while the store is already mounted is
+   * first called on the next mount. Returns a fn which removes the mountFn,
+   * calling its cleanup if it's mounted.
+   */
+  onMount: (mountFn: MountFn) => () => void;
+  /**
+   * like onMount, but only counts subscribers of the path or one of its
+   * descendants. Fires when the first of them mounts, and its cleanup when
+   * the last one unmounts.
+   *
+   * @example
+   * appStore.onPathMount('users', () => {
+   *   fetchUsers();
+   *   return () => abortFetch();
+   * });
+   */
+  onPathMount: (path: PathOf<T>, mountFn: MountFn) => () => void;
+
+  /* --- internal fns, do not call directly, exported for testing --- */
+
+  /**
+   * manually add a subscriber to the store.
+   *
+   * if you pass opts { skipMountTracking: true }, then this subscriber will not
+   * trigger the onMount fn.
+   */
+  __addSubscriber__: (
+    fn: Function,
+    path?: PathPatternOf<T>,
+    opts?: { skipMountTracking?: boolean }
+  ) => void;
+  /** manually remove a subscriber from the store */
+  __removeSubscriber__: (fn: Function) => void;
+}
+
+/**
+ * Create a store with path-based subscriptions and no React dependency, for
+ * Node, workers or tests. watcherStore is this store plus the React hooks.
+ *
+ * @param defaultValue - The initial state object
+ * @param options - Optional middleware to run every write through
+ *
+ * @example
+ * import { vanillaStore } from 'use-watcher-map/core';
+ *
+ * const jobs = vanillaStore({ queue: [] as string[], running: false });
+ * jobs.subscribe('queue', queue => console.log(queue.length, 'queued'));
+ * jobs.pushPath('queue', 'resize-images');
+ */
+export const vanillaStore = <T extends Record<string, any>>(
+  defaultValue: T,
+  options: WatcherOptions<T> = {}
+): VanillaStore<T> => {
+  const core = createStoreCore(defaultValue, options);
+  const {
+    applyPatches,
+    batch,
+    batchAsync,
+    clearPath,
+    getPath,
+    getState,
+    insertAtPath,
+    movePath,
+    onCommit,
+    onPatch,
+    pushPath,
+    removeAtPath,
+    setPath,
+    setState,
+    splicePath,
+    transaction,
+    withOrigin,
+  } = core;
+  let mountHandlers: MountHandler[] = [];
+
+  // --- helper fns ---
+
+  /** true when the subscriber counts towards the handler's mount */
+  const isMountedBy = (handler: MountHandler, subscriber: Subscriber) => {
+    if (subscriber.opts?.skipMountTracking) {
+      return false;
+    }
+    if (handler.path === null) {
+      return true;
+    }
+    const paths =
+      typeof subscriber.path === 'string'
+        ? [subscriber.path]
+        : (subscriber.path ?? []);
+    return paths.some(path => isPathWithin(path, handler.path!));
+  };
+
+  const mount = (handler: MountHandler) => {
+    const returnValue = handler.fn();
+    handler.cleanup = typeof returnValue === 'function' ? returnValue : null;
+  };
+
+  const unmount = (handler: MountHandler) => {
+    const { cleanup } = handler;
+    handler.cleanup = null;
+    cleanup?.();
+  };
+
+  const addSubscriber = (
+    fn: Function,
+    path?: string | string[],
+    opts?: { skipMountTracking?: boolean }
+  ) => {
+    if (core.getSubscriber(fn)) {
+      return;
+    }
+
+    const subscriber = { fn, path, opts };
+    for (const handler of mountHandlers) {
+      if (isMountedBy(handler, subscriber) && handler.count++ === 0) {
+        mount(handler);
+      }
+    }
+
+    core.addSubscriber(fn, path, opts);
+  };
+
+  const removeSubscriber = (fn: Function) => {
+    const removedSubscriber = core.getSubscriber(fn);
+    if (!removedSubscriber) {
+      return;
+    }
+    core.removeSubscriber(fn);
+
+    for (const handler of mountHandlers) {
+      if (isMountedBy(handler, removedSubscriber) && --handler.count === 0) {
+        unmount(handler);
+      }
+    }
+  };
+
+  const addMountHandler = (path: string | null, fn: MountFn) => {
+    const handler: MountHandler = { path, fn, count: 0, cleanup: null };
+    // count the subscribers already mounted, without calling fn, so it's
+    // first called on the next mount
+    handler.count = core
+      .getSubscribers()
+      .filter(subscriber => isMountedBy(handler, subscriber)).length;
+    mountHandlers = [...mountHandlers, handler];
+
+    return () => {
+      if (!mountHandlers.includes(handler)) {
+        return;
+      }
+      mountHandlers = mountHandlers.filter(h => h !== handler);
+      unmount(handler);
+    };
+  };
+
+  const onMount = (fn: MountFn) => addMountHandler(null, fn);
+
+  const onPathMount = (path: string, fn: MountFn) => addMountHandler(path, fn);
+
+  return {
+    applyPatches,
+    batch,
+    batchAsync,
+    clearPath,
+    getPath,
+    getState,
+    insertAtPath,
+    movePath,
+    onCommit,
+    onPatch,
+    onMount,
+    onPathMount,
+    pushPath,
+    removeAtPath,
+    setPath,
+    setState,
+    splicePath,
+    subscribe: createSubscribe({ getState, addSubscriber, removeSubscriber }),
+    transaction,
+    withOrigin,
+    // internal fns, do not call directly
+    __addSubscriber__: addSubscriber,
+    __removeSubscriber__: removeSubscriber,
+  };
+};
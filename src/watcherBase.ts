@@ -1,27 +1,212 @@
-import type { PathOf, TypeAtPath } from './pathOf';
+import type {
+  PathOf,
+  PathPatternOf,
+  TypeAtPath,
+  TypesAtPaths,
+} from './pathOf.js';
+import type { JsonPatchOperation } from './jsonPatch.js';
+import type { WatcherCommit } from './storeCore.js';
 
-export interface WatcherBase<T extends Record<string, any>> {
+// the type of the items in the array at a path
+type ItemAtPath<T extends Record<string, any>, P extends string> =
+  NonNullable<TypeAtPath<T, P>> extends readonly (infer Item)[] ? Item : never;
+
+export interface SubscribeOptions {
+  /** call the listener with the current value straight away */
+  fireImmediately?: boolean;
+  /** unsubscribe when the signal aborts */
+  signal?: AbortSignal;
+}
+
+/** The store methods which don't need React, for use in Node or workers */
+export interface WatcherCore<T extends Record<string, any>> {
   /** get the entire state */
   getState: () => T;
-  /** get a specific path */
-  getPath: <P extends PathOf<T>>(path: P) => TypeAtPath<T, P>;
+  /**
+   * get a specific path. A wildcard pattern, eg. 'todos.*.completed', gets an
+   * array of every matching value
+   */
+  getPath: <P extends PathPatternOf<T>>(path: P) => TypeAtPath<T, P>;
   /** override the entire state */
   setState: (data: T) => void;
   /** update a specific path */
   setPath: <P extends PathOf<T>>(path: P, value: TypeAtPath<T, P>) => void;
   /** clear a specific path */
   clearPath: (path: PathOf<T>, removeEmptyObjects?: boolean) => void;
-  /** make multiple updates and call notifiers at the end */
-  batch: (fn: () => void) => void;
+  /**
+   * add items to the end of the array at a path. Like the other array
+   * methods, it notifies the array path and only the indices which changed,
+   * so subscribers of items which kept their index are not called
+   */
+  pushPath: <P extends PathOf<T>>(
+    path: P,
+    ...items: ItemAtPath<T, P>[]
+  ) => void;
+  /** insert items at an index of the array at a path */
+  insertAtPath: <P extends PathOf<T>>(
+    path: P,
+    index: number,
+    ...items: ItemAtPath<T, P>[]
+  ) => void;
+  /** remove `count` items (default 1) at an index of the array at a path */
+  removeAtPath: (path: PathOf<T>, index: number, count?: number) => void;
+  /** move an item of the array at a path from one index to another */
+  movePath: (path: PathOf<T>, from: number, to: number) => void;
+  /** Array.prototype.splice for the array at a path */
+  splicePath: <P extends PathOf<T>>(
+    path: P,
+    start: number,
+    deleteCount: number,
+    ...items: ItemAtPath<T, P>[]
+  ) => void;
+  /**
+   * make multiple updates and call notifiers at the end. A batch inside
+   * another batch joins the outer one. Returns fn's result.
+   *
+   * If fn throws, the updates made before the error are kept
+   */
+  batch: <R>(fn: () => R) => R;
+  /**
+   * like batch, but if fn throws then every update made inside it is rolled
+   * back, nothing is notified and the error is re-thrown
+   */
+  transaction: <R>(fn: () => R) => R;
+  /**
+   * like batch, but holds notifications across awaits and calls notifiers
+   * once when fn settles. Every write to the store is held while it's open.
+   *
+   * If fn hasn't settled after `timeout` ms (default 10s), notifications are
+   * released and the promise rejects.
+   */
+  batchAsync: <R>(
+    fn: () => Promise<R>,
+    options?: { timeout?: number }
+  ) => Promise<R>;
+  /**
+   * onCommit will call the supplied function after each write, or once at the
+   * end of a batch, with every change that was applied. Writes vetoed by
+   * middleware are not included.
+   *
+   * Used by integrations such as createHistory. Returns an unsubscribe fn.
+   */
+  onCommit: (listener: (commit: WatcherCommit<T>) => void) => () => void;
+  /**
+   * withOrigin runs fn and tags every change it makes with `origin`, which
+   * onCommit listeners see as `change.origin`. Integrations use it to skip
+   * their own writes, which still works when an open batch holds the commit
+   * until later. Only synchronous writes are tagged. Returns fn's result.
+   *
+   * @example
+   * const origin = Symbol('sync');
+   * store.withOrigin(origin, () => store.setPath('theme', remoteTheme));
+   * store.onCommit(({ changes }) => {
+   *   const own = changes.filter(change => change.origin !== origin);
+   * });
+   */
+  withOrigin: <R>(origin: unknown, fn: () => R) => R;
+  /**
+   * onPatch will call the supplied function after each write, or once at the
+   * end of a batch, with the changes as JSON Patch (RFC 6902) operations and
+   * the operations which reverse them. Returns an unsubscribe fn.
+   */
+  onPatch: (
+    listener: (
+      patches: JsonPatchOperation[],
+      inversePatches: JsonPatchOperation[]
+    ) => void
+  ) => () => void;
+  /**
+   * apply JSON Patch (RFC 6902) operations, notifying once for the touched
+   * paths. If any operation fails, including a `test`, none are applied and
+   * the error is re-thrown
+   */
+  applyPatches: (patches: JsonPatchOperation[]) => void;
+  /**
+   * subscribe calls the listener when the path changes, or with the entire
+   * state on every change when the path is null. For use outside React, eg.
+   * in services. Every call is its own subscription, so one listener can
+   * subscribe to several paths. Returns an unsubscribe fn.
+   *
+   * @example
+   * const unsubscribe = store.subscribe('user.name', name => {
+   *   analytics.identify(name);
+   * }, { fireImmediately: true });
+   */
+  subscribe: {
+    (
+      path: null,
+      listener: (state: T) => void,
+      options?: SubscribeOptions
+    ): () => void;
+    <P extends PathPatternOf<T>>(
+      path: P,
+      listener: (value: TypeAtPath<T, P>) => void,
+      options?: SubscribeOptions
+    ): () => void;
+  };
+}
+
+/** The React hooks which read and watch the store from components */
+export interface WatcherHooks<T extends Record<string, any>> {
   /** useState will re-render the component when the state changes */
   useState: () => T;
+  /**
+   * useSelector derives a value from the entire state, and re-renders the
+   * component only when isEqual(prev, next) is false. Defaults to
+   * isShallowEqual, so a selector may build a new object or array each time.
+   *
+   * @example
+   * const currentUser = store.useSelector(state =>
+   *   state.users.find(user => user.id === state.auth.userId)
+   * );
+   */
+  useSelector: <R>(
+    selector: (state: T) => R,
+    isEqual?: (prev: R, next: R) => boolean
+  ) => R;
   /**
    * usePath will re-render the component when the specified path changes
    *
-   * @param path - The path to watch
+   * `*` in the path matches any one key, and `**` any keys one or more levels
+   * deep, eg. 'todos.*.completed'. The matching values are returned as an
+   * array, which keeps its identity until one of them changes. A pattern
+   * with `**` is checked on any write under the part before it.
+   *
+   * @param path - The path or wildcard pattern to watch
    * @returns The value at the specified path
    */
-  usePath: <P extends PathOf<T>>(path: P) => TypeAtPath<T, P>;
+  usePath: <P extends PathPatternOf<T>>(path: P) => TypeAtPath<T, P>;
+  /**
+   * usePathSuspense is usePath for React Suspense. While the value at the
+   * path is a pending promise, the component suspends and the nearest
+   * <Suspense> boundary shows its fallback. A rejected promise is thrown to
+   * the error boundary, and a resolved one returns its result.
+   *
+   * @example
+   * store.setPath('user', fetchUser(id)); // a promise
+   * const user = store.usePathSuspense('user'); // the resolved User
+   */
+  usePathSuspense: <P extends PathOf<T>>(path: P) => Awaited<TypeAtPath<T, P>>;
+  /**
+   * usePaths reads several paths with one subscription, and re-renders the
+   * component when any of them changes. Pass a tuple of paths for a tuple of
+   * values, or an object of paths for an object of values. The result keeps
+   * its identity until one of the values changes.
+   *
+   * @example
+   * const [name, theme] = store.usePaths(['user.name', 'settings.theme']);
+   * const { name, theme } = store.usePaths({
+   *   name: 'user.name',
+   *   theme: 'settings.theme',
+   * });
+   */
+  usePaths: <
+    const P extends
+      | readonly PathPatternOf<T>[]
+      | Record<string, PathPatternOf<T>>,
+  >(
+    paths: P
+  ) => TypesAtPaths<T, P>;
   /**
    * watchState will call the supplied function when the state changes.
    *
@@ -38,8 +223,12 @@ export interface WatcherBase<T extends Record<string, any>> {
    *
    * It uses a useEffect underneath to cleanup properly
    */
-  watchPath: <P extends PathOf<T>>(
+  watchPath: <P extends PathPatternOf<T>>(
     path: P,
     fn: (value: TypeAtPath<T, P>) => void
   ) => void;
 }
+
+export interface WatcherBase<T extends Record<string, any>>
+  extends WatcherCore<T>,
+    WatcherHooks<T> {}
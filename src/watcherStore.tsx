@@ -1,40 +1,25 @@
-import { useEffect, useSyncExternalStore } from 'react';
-import { getDeepPath, setDeepPathClone, deleteDeepPathClone } from './object';
-import type { WatcherBase } from './watcherBase';
-import { PathOf } from './pathOf';
-import { getUniqueBatchedUpdates, notifyPathSubscribers } from './shared';
+import { createHooks } from './createHooks.js';
+import type { WatcherOptions } from './storeCore.js';
+import { vanillaStore, type VanillaStore } from './vanillaStore.js';
+import type { WatcherHooks } from './watcherBase.js';
 
-export interface WatcherStore<T extends Record<string, any>>
-  extends WatcherBase<T> {
-  /**
-   * onMount will call the supplied function when the store is mounted.
-   *
-   * ie. useState, usePath, watchState, watchPath is used within a component.
-   *
-   * If the mountFn returns a function, that function will be called when the
-   * store is unmounted.
-   *
-   * Only one onMount function is kept, so calling onMount multiple times will
-   * override the previous function.
-   */
-  onMount: (mountFn: () => void) => void;
+export type { MountFn } from './vanillaStore.js';
 
-  /* --- internal fns, do not call directly, exported for testing --- */
+export interface WatcherStore<T extends Record<string, any>>
+  extends VanillaStore<T>,
+    WatcherHooks<T> {}
 
-  /**
-   * manually add a subscriber to the store.
-   *
-   * if you pass opts { skipMountTracking: true }, then this subscriber will not
-   * trigger the onMount fn.
-   */
-  __addSubscriber__: (
-    fn: Function,
-    path?: PathOf<T>,
-    opts?: { skipMountTracking?: boolean }
-  ) => void;
-  /** manually remove a subscriber from the store */
-  __removeSubscriber__: (fn: Function) => void;
-}
+/**
+ * Add the React hooks to a vanilla store, eg. one created in a module shared
+ * with a worker. The store keeps its state and subscribers.
+ *
+ * @example
+ * export const jobsStore = bindStore(jobs);
+ * const queue = jobsStore.usePath('queue');
+ */
+export const bindStore = <T extends Record<string, any>>(
+  store: VanillaStore<T>
+): WatcherStore<T> => ({ ...store, ...createHooks(store) });
 
 /**
  * Create a global store with path-based subscriptions. Unlike useWatcherMap,
@@ -42,6 +27,7 @@ export interface WatcherStore<T extends Record<string, any>>
  * methods inside React components.
  *
  * @param defaultValue - The initial state object
+ * @param options - Optional middleware to run every write through
  * @returns A WatcherStore with all WatcherMap methods plus onMount lifecycle
  *
  * @example
@@ -53,210 +39,6 @@ export interface WatcherStore<T extends Record<string, any>>
  * appStore.setPath('theme', 'light');
  */
 export const watcherStore = <T extends Record<string, any>>(
-  defaultValue: T
-): WatcherStore<T> => {
-  let state = defaultValue;
-  let subscribers: {
-    path?: string;
-    fn: Function;
-    opts?: { skipMountTracking?: boolean };
-  }[] = [];
-  let batchedUpdates: { value: T; paths: string[] }[] | null = null;
-  let onMountFn: (() => void) | null = null;
-  let onUnmountFn: any | null = null;
-
-  // --- helper fns ---
-
-  const addSubscriber = (
-    fn: Function,
-    path?: string,
-    opts?: { skipMountTracking?: boolean }
-  ) => {
-    const isFirstSubscriber =
-      subscribers.filter(s => !s.opts?.skipMountTracking).length === 0;
-    if (
-      !opts?.skipMountTracking &&
-      isFirstSubscriber &&
-      typeof onMountFn === 'function'
-    ) {
-      const returnValue = onMountFn();
-      if (typeof returnValue === 'function') {
-        onUnmountFn = returnValue;
-      }
-    }
-
-    if (!subscribers.some(sub => sub.fn === fn)) {
-      subscribers.push({ path, fn, opts });
-    }
-  };
-
-  const removeSubscriber = (fn: Function) => {
-    const removedSubscriber = subscribers.find(sub => sub.fn === fn);
-    subscribers = subscribers.filter(sub => sub.fn !== fn);
-
-    const isLastSubscriber =
-      subscribers.filter(s => !s.opts?.skipMountTracking).length === 0;
-    if (
-      !removedSubscriber?.opts?.skipMountTracking &&
-      isLastSubscriber &&
-      typeof onUnmountFn === 'function'
-    ) {
-      onUnmountFn();
-      onUnmountFn = null;
-    }
-  };
-
-  /**
-   * each path that's being updated should be a full path, not parts
-   *
-   * ✅ - ["todos.0.completed"]
-   * ❌ - ["todos", "todos.0", "todos.0.completed"]
-   */
-  const notifySubscribers = (value: T, paths: string[]) => {
-    // if we're in a batch, delay the notification until the batch is complete
-    if (batchedUpdates) {
-      batchedUpdates.push({ value, paths });
-      return;
-    }
-
-    notifyPathSubscribers(subscribers, value, paths);
-  };
-
-  const subscribe = (fn: Function) => {
-    addSubscriber(fn);
-
-    return () => removeSubscriber(fn);
-  };
-
-  // useSyncExternalStore re-subscribes whenever the subscribe fn identity
-  // changes, which would fire onMount/onUnmount on every render. Cache one
-  // subscribe fn per path so identity is stable across renders of the same
-  // usePath(path) call.
-  const pathSubscribers = new Map<string, (fn: Function) => () => void>();
-  const subscribePathFactory = (path: string) => {
-    let cached = pathSubscribers.get(path);
-    if (!cached) {
-      cached = (fn: Function) => {
-        addSubscriber(fn, path);
-        return () => removeSubscriber(fn);
-      };
-      pathSubscribers.set(path, cached);
-    }
-    return cached;
-  };
-
-  const getState = () => state;
-
-  const getPath = (path: string): any => {
-    return getDeepPath(state, path.split('.'));
-  };
-
-  // Cache one getSnapshot fn per path. useSyncExternalStore reads identity to
-  // detect changes; a fresh fn each render forces extra work.
-  const pathGetters = new Map<string, () => any>();
-  const getPathFactory = (path: string) => {
-    let cached = pathGetters.get(path);
-    if (!cached) {
-      cached = (): any => getDeepPath(state, path.split('.'));
-      pathGetters.set(path, cached);
-    }
-    return cached;
-  };
-
-  const batch = (fn: () => void) => {
-    if (batchedUpdates) {
-      throw new Error('Cannot batch updates inside a batch');
-    }
-    batchedUpdates = [];
-    fn();
-    // make a list of unique updates, take the last one for each path
-    const updates = getUniqueBatchedUpdates(batchedUpdates);
-    batchedUpdates = null;
-    updates.forEach(({ value, paths }) => notifySubscribers(value, paths));
-  };
-
-  /**
-   * setState - OVERRIDES the entire state and notifies subscribers
-   * of the changes. This will trigger all paths that are being watched.
-   */
-  const setState = (value: T) => {
-    // update the state
-    state = value;
-    // determine what keys have changed in the map
-    // a user can call setValue({ a: 1, b: 2 })
-    // and subscribers of both a and b will be notified
-    const paths = Object.keys(value);
-    // notify subscribers of the changes
-    notifySubscribers(value, paths);
-  };
-
-  /**
-   * setPath - updates a specific path in the state and notifies subscribers
-   * of the changes.
-   */
-  const setPath = (path: string, value: any) => {
-    if (typeof state === 'undefined' || state === null) {
-      state = {} as T;
-    }
-
-    const pathParts = path.split('.');
-    const newState = setDeepPathClone(state, pathParts, value);
-
-    state = newState;
-
-    notifySubscribers(state, [path]);
-  };
-
-  const clearPath = (path: string, removeEmptyObjects = false) => {
-    if (typeof state === 'undefined' || state === null) {
-      return;
-    }
-
-    const pathParts = path.split('.');
-    state = deleteDeepPathClone(state, pathParts, removeEmptyObjects);
-
-    notifySubscribers(state, [path]);
-  };
-
-  // do not call setState from within this function or it will cause
-  // an infinite loop
-  const watchState = (fn: Function) =>
-    useEffect(() => {
-      addSubscriber(fn);
-
-      return () => removeSubscriber(fn);
-    }, []);
-
-  const watchPath = (path: string, fn: (value: any) => void) =>
-    useEffect(() => {
-      addSubscriber(fn, path);
-
-      return () => removeSubscriber(fn);
-    }, [path]);
-
-  const onMount = (fn: () => void) => {
-    onMountFn = fn;
-  };
-
-  const useState = () => useSyncExternalStore<T>(subscribe, getState);
-
-  const usePath = (path: string) =>
-    useSyncExternalStore(subscribePathFactory(path), getPathFactory(path));
-
-  return {
-    batch,
-    clearPath,
-    getPath,
-    getState,
-    onMount,
-    setPath,
-    setState,
-    useState,
-    usePath,
-    watchState,
-    watchPath,
-    // internal fns, do not call directly
-    __addSubscriber__: addSubscriber,
-    __removeSubscriber__: removeSubscriber,
-  };
-};
+  defaultValue: T,
+  options: WatcherOptions<T> = {}
+): WatcherStore<T> => bindStore(vanillaStore(defaultValue, options));
@@ -0,0 +1,206 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { Suspense, type ReactNode } from 'react';
+import { asyncComputedStore } from '../src/asyncComputedStore';
+import { watcherStore } from '../src/watcherStore';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('asyncComputedStore', () => {
+  beforeEach(() => {
+    mock.restore();
+  });
+
+  test('does not run or subscribe until read or mounted', async () => {
+    const store = watcherStore({ count: 2 });
+    const computeFn = mock(async (state: { count: number }) => state.count * 2);
+
+    const computed = asyncComputedStore(store, computeFn);
+
+    store.setPath('count', 3);
+    expect(computeFn).not.toHaveBeenCalled();
+
+    expect(computed.getState().status).toBe('loading');
+    expect(computeFn).toHaveBeenCalledTimes(1);
+
+    await wait(0);
+    expect(computed.getState()).toEqual({
+      status: 'success',
+      data: 6,
+      error: undefined,
+    });
+    expect(computeFn).toHaveBeenCalledTimes(1);
+  });
+
+  test('usePath re-renders with the status and data', async () => {
+    const store = watcherStore({ query: 'apples' });
+    const response = deferred<string[]>();
+    const computed = asyncComputedStore(
+      { watcher: store, path: 'query' },
+      () => response.promise
+    );
+
+    const { result } = renderHook(() => ({
+      status: computed.usePath('status'),
+      data: computed.usePath('data'),
+    }));
+
+    expect(result.current).toEqual({ status: 'loading', data: undefined });
+
+    await act(async () => {
+      response.resolve(['apple pie']);
+    });
+    expect(result.current).toEqual({ status: 'success', data: ['apple pie'] });
+  });
+
+  test('abort the in-flight run when the dependencies change', async () => {
+    const store = watcherStore({ query: 'a', page: 1 });
+    const runs: { query: string; signal: AbortSignal }[] = [];
+    const responses = [deferred<string>(), deferred<string>()];
+    const computed = asyncComputedStore(
+      { watcher: store, path: 'query' },
+      (query, { signal }) => {
+        runs.push({ query, signal });
+        return responses[runs.length - 1].promise;
+      }
+    );
+    computed.__addSubscriber__(() => {});
+
+    // unrelated paths don't start a new run
+    store.setPath('page', 2);
+    expect(runs).toHaveLength(1);
+
+    store.setPath('query', 'ab');
+    expect(runs).toHaveLength(2);
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(runs[1].signal.aborted).toBe(false);
+
+    responses[1].resolve('ab results');
+    await wait(0);
+    // the aborted run settling late doesn't overwrite the newer result
+    responses[0].resolve('a results');
+    await wait(0);
+    expect(computed.getPath('data')).toBe('ab results');
+  });
+
+  test('keep the previous data when a run fails', async () => {
+    const store = watcherStore({ id: 1 });
+    const error = new Error('Not found');
+    const computed = asyncComputedStore(store, async state => {
+      if (state.id === 2) {
+        throw error;
+      }
+      return `user ${state.id}`;
+    });
+    const subscriber = mock(() => {});
+    computed.__addSubscriber__(subscriber, 'error');
+
+    await wait(0);
+    store.setPath('id', 2);
+    await wait(0);
+
+    expect(computed.getState()).toEqual({
+      status: 'error',
+      data: 'user 1',
+      error,
+    });
+    expect(subscriber).toHaveBeenCalledWith(error);
+  });
+
+  test('debounce dependency changes', async () => {
+    const store = watcherStore({ query: '' });
+    const computeFn = mock(async (query: string) => query.toUpperCase());
+    const computed = asyncComputedStore(
+      { watcher: store, path: 'query' },
+      computeFn,
+      { debounce: 10 }
+    );
+    computed.__addSubscriber__(() => {});
+    expect(computeFn).toHaveBeenCalledTimes(1);
+
+    store.setPath('query', 'a');
+    store.setPath('query', 'ab');
+    store.setPath('query', 'abc');
+    expect(computeFn).toHaveBeenCalledTimes(1);
+
+    await wait(20);
+    expect(computeFn).toHaveBeenCalledTimes(2);
+    expect(computed.getPath('data')).toBe('ABC');
+  });
+
+  test('unsubscribe and abort when the last subscriber unmounts', () => {
+    const store = watcherStore({ count: 1 });
+    let signal: AbortSignal | undefined;
+    const computeFn = mock(
+      (_state: unknown, context: { signal: AbortSignal }) => {
+        signal = context.signal;
+        return new Promise<number>(() => {});
+      }
+    );
+    const computed = asyncComputedStore(store, computeFn);
+
+    const { unmount } = renderHook(() => computed.usePath('status'));
+    expect(computeFn).toHaveBeenCalledTimes(1);
+
+    unmount();
+    expect(signal?.aborted).toBe(true);
+
+    store.setPath('count', 2);
+    expect(computeFn).toHaveBeenCalledTimes(1);
+  });
+
+  test('useSuspense suspends until the first run succeeds', async () => {
+    const store = watcherStore({ id: 1 });
+    const response = deferred<string>();
+    const computed = asyncComputedStore(store, () => response.promise);
+
+    const { result } = renderHook(() => computed.useSuspense(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <Suspense fallback={null}>{children}</Suspense>
+      ),
+    });
+    expect(result.current).toBeNull();
+    expect(computed.getPath('status')).toBe('loading');
+
+    await act(async () => {
+      response.resolve('user 1');
+    });
+    expect(result.current).toBe('user 1');
+  });
+
+  test('useSuspense retries when the run it waits on is cancelled', async () => {
+    const store = watcherStore({ id: 1 });
+    const responses = [deferred<string>(), deferred<string>()];
+    let runs = 0;
+    const computed = asyncComputedStore(store, () => responses[runs++].promise);
+    const subscriber = () => {};
+    computed.__addSubscriber__(subscriber);
+
+    const { result } = renderHook(() => computed.useSuspense(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <Suspense fallback={null}>{children}</Suspense>
+      ),
+    });
+    expect(result.current).toBeNull();
+
+    // the last subscriber unmounting aborts the run the component waits on
+    await act(async () => {
+      computed.__removeSubscriber__(subscriber);
+    });
+    expect(runs).toBe(2);
+
+    await act(async () => {
+      responses[0].resolve('stale');
+      responses[1].resolve('user 1');
+    });
+    expect(result.current).toBe('user 1');
+  });
+});
@@ -1,8 +1,13 @@
 import { describe, test, expect, mock, beforeEach } from 'bun:test';
 import { renderHook, act } from '@testing-library/react';
+import { Suspense, type ReactNode } from 'react';
 import { computedStore } from '../src/computedStore';
 import { watcherStore } from '../src/watcherStore';
 
+const SuspenseWrapper = ({ children }: { children: ReactNode }) => (
+  <Suspense fallback={null}>{children}</Suspense>
+);
+
 describe('computedStore', () => {
   beforeEach(() => {
     mock.restore();
@@ -47,6 +52,66 @@ describe('computedStore', () => {
     expect(computeFn).toHaveBeenCalledTimes(2);
   });
 
+  test('compare results by reference or deep equality', () => {
+    const store = watcherStore({ items: [{ id: 1 }], filter: 'all' });
+    const byReference = computedStore(store, state => [...state.items], {
+      isEqual: 'reference',
+    });
+    const byValue = computedStore(
+      store,
+      state => state.items.map(item => ({ ...item })),
+      { isEqual: 'deep' }
+    );
+    const referenceSubscriber = mock(() => {});
+    const valueSubscriber = mock(() => {});
+
+    byReference.__addSubscriber__(referenceSubscriber);
+    byValue.__addSubscriber__(valueSubscriber);
+
+    store.setPath('filter', 'done');
+
+    // a new but shallow equal array counts as a change by reference
+    expect(referenceSubscriber).toHaveBeenCalledTimes(1);
+    expect(valueSubscriber).not.toHaveBeenCalled();
+
+    store.setPath('items.0.id', 2);
+    expect(valueSubscriber).toHaveBeenCalledTimes(1);
+    expect(byValue.getState()).toEqual([{ id: 2 }]);
+  });
+
+  test('notify a deep compared Set when its values change', () => {
+    const store = watcherStore({ tags: ['home'] });
+    const tagSet = computedStore(store, state => new Set(state.tags), {
+      isEqual: 'deep',
+    });
+    const subscriber = mock(() => {});
+    tagSet.__addSubscriber__(subscriber);
+
+    store.setPath('tags', ['home']);
+    expect(subscriber).not.toHaveBeenCalled();
+
+    store.setPath('tags', ['work']);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(tagSet.getState()).toEqual(new Set(['work']));
+  });
+
+  test('subscribe mounts the store until unsubscribed', () => {
+    const store = watcherStore({ count: 2 });
+    const computed = computedStore(store, (state: { count: number }) => ({
+      doubled: state.count * 2,
+    }));
+    const listener = mock(() => {});
+
+    const unsubscribe = computed.subscribe('doubled', listener, {
+      fireImmediately: true,
+    });
+    store.setPath('count', 3);
+    unsubscribe();
+    store.setPath('count', 4);
+
+    expect(listener.mock.calls).toEqual([[4], [6]]);
+  });
+
   test('usePath subscribes to dependencies while mounted', () => {
     const store = watcherStore({ count: 2 });
     const computed = computedStore(store, (state: { count: number }) => ({
@@ -160,4 +225,64 @@ describe('computedStore', () => {
     expect(subscriber).toHaveBeenCalledTimes(1);
     expect(subscriber).toHaveBeenCalledWith({ doubled: 6 });
   });
+
+  test('usePath accepts wildcard paths', () => {
+    const store = watcherStore({ counts: [1, 2] });
+    const computed = computedStore(store, (state: { counts: number[] }) => ({
+      items: state.counts.map(count => ({ doubled: count * 2 })),
+    }));
+
+    const { result } = renderHook(() => computed.usePath('items.*.doubled'));
+
+    expect(result.current).toEqual([2, 4]);
+
+    act(() => {
+      store.setPath('counts', [1, 2, 3]);
+    });
+
+    expect(result.current).toEqual([2, 4, 6]);
+  });
+
+  test('suspend while the computed state or path is a pending promise', async () => {
+    const store = watcherStore({ id: 1 });
+    const resolvers: ((name: string) => void)[] = [];
+    const user = computedStore(
+      store,
+      (state: { id: number }) => ({
+        name: new Promise<string>(resolve => resolvers.push(resolve)),
+        id: state.id,
+      }),
+      { isEqual: 'reference' }
+    );
+    const name = computedStore(
+      { watcher: user, path: 'name' },
+      (promise: Promise<string>) => promise,
+      { isEqual: 'reference' }
+    );
+
+    const state = renderHook(() => name.useStateSuspense(), {
+      wrapper: SuspenseWrapper,
+    });
+    const path = renderHook(() => user.usePathSuspense('name'), {
+      wrapper: SuspenseWrapper,
+    });
+    expect(state.result.current).toBeNull();
+    expect(path.result.current).toBeNull();
+
+    await act(async () => {
+      resolvers.at(-1)!('Alice');
+    });
+    expect(state.result.current).toBe('Alice');
+    expect(path.result.current).toBe('Alice');
+
+    // a new promise suspends again, until it resolves
+    act(() => {
+      store.setPath('id', 2);
+    });
+    await act(async () => {
+      resolvers.at(-1)!('Bob');
+    });
+    expect(state.result.current).toBe('Bob');
+    expect(path.result.current).toBe('Bob');
+  });
 });
@@ -0,0 +1,202 @@
+import { describe, test, expect, mock } from 'bun:test';
+import {
+  connectDevtools,
+  type DevtoolsConnection,
+  type DevtoolsMessage,
+} from '../src/connectDevtools';
+import { watcherStore } from '../src/watcherStore';
+
+/** a local stand-in for the extension's connection */
+const createConnection = () => {
+  let listener: ((message: DevtoolsMessage) => void) | null = null;
+  const connection = {
+    init: mock((_state: any) => {}),
+    send: mock((_action: any, _state: any) => {}),
+    subscribe: mock((fn: (message: DevtoolsMessage) => void) => {
+      listener = fn;
+      return () => {
+        listener = null;
+      };
+    }),
+  } satisfies DevtoolsConnection;
+  const dispatch = (message: DevtoolsMessage) => listener?.(message);
+
+  return { connection, dispatch, isSubscribed: () => listener !== null };
+};
+
+describe('connectDevtools', () => {
+  const initialState = {
+    todos: [{ text: 'Learn React', completed: false }],
+    filter: 'all',
+  };
+
+  test('send the initial state', () => {
+    const { connection } = createConnection();
+    const store = watcherStore(initialState);
+
+    connectDevtools(store, { connection });
+
+    expect(connection.init).toHaveBeenCalledWith(initialState);
+  });
+
+  test('send each write as a named action', () => {
+    const { connection } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+
+    store.setPath('todos.0.completed', true);
+    store.clearPath('filter');
+    store.setState(initialState);
+
+    expect(connection.send.mock.calls.map(([action]) => action)).toEqual([
+      {
+        type: 'setPath todos.0.completed',
+        path: 'todos.0.completed',
+        value: true,
+      },
+      { type: 'clearPath filter', path: 'filter' },
+      { type: 'setState', state: initialState },
+    ]);
+    expect(connection.send.mock.calls[0][1]).toEqual({
+      ...initialState,
+      todos: [{ text: 'Learn React', completed: true }],
+    });
+  });
+
+  test('send a batch as a single action', () => {
+    const { connection } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+
+    store.batch(() => {
+      store.setPath('filter', 'completed');
+      store.clearPath('todos.0');
+    });
+
+    expect(connection.send).toHaveBeenCalledTimes(1);
+    expect(connection.send.mock.calls[0][0]).toEqual({
+      type: 'batch',
+      changes: [
+        { type: 'setPath filter', path: 'filter', value: 'completed' },
+        { type: 'clearPath todos.0', path: 'todos.0' },
+      ],
+    });
+  });
+
+  test('jump to a past state with setState', () => {
+    const { connection, dispatch } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+    const filterFn = mock(() => {});
+    store.__addSubscriber__(filterFn, 'filter');
+
+    store.setPath('filter', 'completed');
+    dispatch({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_STATE' },
+      state: JSON.stringify(initialState),
+    });
+
+    expect(store.getState()).toEqual(initialState);
+    expect(filterFn).toHaveBeenLastCalledWith('all');
+    // time-travel isn't sent back as a new action
+    expect(connection.send).toHaveBeenCalledTimes(1);
+  });
+
+  test('time-travel inside a batch is not sent back', () => {
+    const { connection, dispatch } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+
+    store.batch(() => {
+      dispatch({
+        type: 'DISPATCH',
+        payload: { type: 'JUMP_TO_STATE' },
+        state: JSON.stringify({ ...initialState, filter: 'completed' }),
+      });
+      store.setPath('todos.0.completed', true);
+    });
+
+    expect(connection.send).toHaveBeenCalledTimes(1);
+    expect(connection.send.mock.calls[0][0]).toEqual({
+      type: 'batch',
+      changes: [
+        {
+          type: 'setPath todos.0.completed',
+          path: 'todos.0.completed',
+          value: true,
+        },
+      ],
+    });
+  });
+
+  test('import a state file', () => {
+    const { connection, dispatch } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+
+    dispatch({
+      type: 'DISPATCH',
+      payload: {
+        type: 'IMPORT_STATE',
+        nextLiftedState: {
+          computedStates: [
+            { state: initialState },
+            { state: { ...initialState, filter: 'imported' } },
+          ],
+        },
+      },
+    });
+
+    expect(store.getPath('filter')).toBe('imported');
+  });
+
+  test('reset to the initial state', () => {
+    const { connection, dispatch } = createConnection();
+    const store = watcherStore(initialState);
+    connectDevtools(store, { connection });
+
+    store.setPath('filter', 'completed');
+    dispatch({ type: 'DISPATCH', payload: { type: 'RESET' } });
+
+    expect(store.getState()).toEqual(initialState);
+    expect(connection.init).toHaveBeenCalledTimes(2);
+  });
+
+  test('disconnect', () => {
+    const { connection, isSubscribed } = createConnection();
+    const store = watcherStore(initialState);
+    const disconnect = connectDevtools(store, { connection });
+
+    disconnect();
+    store.setPath('filter', 'completed');
+
+    expect(isSubscribed()).toBe(false);
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  test('do nothing without the extension', () => {
+    const store = watcherStore(initialState);
+
+    const disconnect = connectDevtools(store);
+    store.setPath('filter', 'completed');
+
+    expect(typeof disconnect).toBe('function');
+  });
+
+  test('connect to the extension when it is installed', () => {
+    const { connection } = createConnection();
+    const connect = mock((_options: { name: string }) => connection);
+    globalThis.__REDUX_DEVTOOLS_EXTENSION__ = { connect };
+    const store = watcherStore(initialState);
+
+    try {
+      connectDevtools(store, { name: 'appStore' });
+    } finally {
+      globalThis.__REDUX_DEVTOOLS_EXTENSION__ = undefined;
+    }
+
+    expect(connect).toHaveBeenCalledWith({ name: 'appStore' });
+    expect(connection.init).toHaveBeenCalledWith(initialState);
+  });
+});
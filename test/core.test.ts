@@ -0,0 +1,114 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { vanillaComputedStore, vanillaStore } from '../src/core';
+
+const srcDir = join(import.meta.dir, '../src');
+
+// the modules a file imports at runtime, skipping `import type`
+const getRuntimeImports = (file: string) => {
+  const source = readFileSync(file, 'utf8');
+  return [
+    ...source.matchAll(/^(?:import|export) (?!type\b)[^;]*?from '([^']+)'/gm),
+  ].map(match => match[1]);
+};
+
+// a .js specifier points at the .ts or .tsx file it's built from
+const resolveModule = (from: string, specifier: string) => {
+  const base = join(dirname(from), specifier.replace(/\.js$/, ''));
+  const file = [`${base}.ts`, `${base}.tsx`].find(file => existsSync(file));
+  if (file) {
+    return file;
+  }
+  throw new Error(`Cannot resolve "${specifier}" from "${from}"`);
+};
+
+describe('core', () => {
+  test('does not import react', () => {
+    const visited = new Set<string>();
+    const packages = new Set<string>();
+    const visit = (file: string) => {
+      if (visited.has(file)) {
+        return;
+      }
+      visited.add(file);
+      for (const specifier of getRuntimeImports(file)) {
+        if (specifier.startsWith('.')) {
+          visit(resolveModule(file, specifier));
+        } else {
+          packages.add(specifier);
+        }
+      }
+    };
+
+    visit(join(srcDir, 'core.ts'));
+
+    expect(visited.has(join(srcDir, 'storeCore.ts'))).toBe(true);
+    expect([...packages]).toEqual([]);
+  });
+
+  test('import relative modules with a .js extension', () => {
+    // Node doesn't resolve extensionless imports, so the built entries
+    // wouldn't load. `bun run test:dist` loads them in Node
+    const extensionless = readdirSync(srcDir)
+      .filter(file => /\.tsx?$/.test(file))
+      .flatMap(file => {
+        const source = readFileSync(join(srcDir, file), 'utf8');
+        return [...source.matchAll(/from '(\.[^']+)'/g)]
+          .map(match => match[1])
+          .filter(specifier => !specifier.endsWith('.js'))
+          .map(specifier => `${file}: ${specifier}`);
+      });
+
+    expect(extensionless).toEqual([]);
+  });
+
+  describe('vanillaStore', () => {
+    test('read, write and subscribe without React', () => {
+      const store = vanillaStore({ queue: ['a'], running: false });
+      const listener = mock(() => {});
+      store.subscribe('queue', listener);
+
+      store.pushPath('queue', 'b');
+      store.setPath('running', true);
+
+      expect(store.getState()).toEqual({ queue: ['a', 'b'], running: true });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(['a', 'b']);
+    });
+
+    test('mount when subscribe adds the first subscriber', () => {
+      const store = vanillaStore({ count: 0 });
+      const cleanup = mock(() => {});
+      const mountFn = mock(() => cleanup);
+      store.onMount(mountFn);
+
+      const unsubscribe = store.subscribe('count', () => {});
+      expect(mountFn).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('vanillaComputedStore', () => {
+    test('derive from a vanilla store while subscribed', () => {
+      const store = vanillaStore({ queue: ['a'] });
+      const computeFn = mock((queue: string[]) => ({ pending: queue.length }));
+      const computed = vanillaComputedStore(
+        { watcher: store, path: 'queue' },
+        computeFn
+      );
+      const listener = mock(() => {});
+
+      const unsubscribe = computed.subscribe('pending', listener);
+      store.pushPath('queue', 'b');
+      expect(listener).toHaveBeenCalledWith(2);
+
+      unsubscribe();
+      store.pushPath('queue', 'c');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(computed.getPath('pending')).toBe(3);
+    });
+  });
+});
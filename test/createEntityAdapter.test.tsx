@@ -0,0 +1,190 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { createEntityAdapter } from '../src/createEntityAdapter';
+import { watcherStore } from '../src/watcherStore';
+
+type User = { id: number; name: string; email?: string };
+
+describe('createEntityAdapter', () => {
+  const alice = { id: 1, name: 'Alice' };
+  const bob = { id: 2, name: 'Bob' };
+  const carol = { id: 3, name: 'Carol' };
+
+  const setup = (initial: User[] = [alice, bob]) => {
+    const adapter = createEntityAdapter<User>();
+    const store = watcherStore({ users: adapter.getInitialState(initial) });
+    return { adapter, store, users: adapter.bind(store, 'users') };
+  };
+
+  test('getInitialState normalizes the entities', () => {
+    const adapter = createEntityAdapter<User>();
+
+    expect(adapter.getInitialState([alice, bob])).toEqual({
+      ids: [1, 2],
+      entities: { 1: alice, 2: bob },
+    });
+    expect(adapter.getInitialState()).toEqual({ ids: [], entities: {} });
+  });
+
+  test('selectId and sortComparer', () => {
+    const adapter = createEntityAdapter<{ key: string; name: string }>({
+      selectId: entity => entity.key,
+      sortComparer: (a, b) => a.name.localeCompare(b.name),
+    });
+    const store = watcherStore({ items: adapter.getInitialState() });
+    const items = adapter.bind(store, 'items');
+
+    items.addMany([
+      { key: 'b', name: 'Zoe' },
+      { key: 'a', name: 'Adam' },
+    ]);
+    expect(items.getIds()).toEqual(['a', 'b']);
+
+    // an update which changes the sort order re-sorts the ids
+    items.updateOne('a', { name: 'Zz' });
+    expect(items.getIds()).toEqual(['b', 'a']);
+  });
+
+  test('addOne and addMany ignore existing ids', () => {
+    const { users } = setup();
+
+    users.addOne(carol);
+    users.addMany([
+      { id: 1, name: 'Not Alice' },
+      { id: 4, name: 'Dan' },
+    ]);
+
+    expect(users.getIds()).toEqual([1, 2, 3, 4]);
+    expect(users.getEntity(1)).toBe(alice);
+    expect(users.getAll().map(user => user.name)).toEqual([
+      'Alice',
+      'Bob',
+      'Carol',
+      'Dan',
+    ]);
+  });
+
+  test('upsertMany adds new entities and merges existing ones', () => {
+    const { users } = setup();
+
+    users.upsertMany([{ id: 1, name: 'Alicia' }, carol]);
+
+    expect(users.getIds()).toEqual([1, 2, 3]);
+    expect(users.getEntity(1)).toEqual({ id: 1, name: 'Alicia' });
+    expect(users.getEntity(3)).toBe(carol);
+  });
+
+  test('updateOne notifies only that entity', () => {
+    const { store, users } = setup();
+    const aliceMock = mock(() => {});
+    const bobMock = mock(() => {});
+    const idsMock = mock(() => {});
+    store.__addSubscriber__(aliceMock, 'users.entities.1');
+    store.__addSubscriber__(bobMock, 'users.entities.2');
+    store.__addSubscriber__(idsMock, 'users.ids');
+
+    users.updateOne(1, { email: 'alice@example.com' });
+    users.updateOne(99, { name: 'Nobody' });
+
+    expect(aliceMock).toHaveBeenCalledTimes(1);
+    expect(aliceMock).toHaveBeenCalledWith({
+      id: 1,
+      name: 'Alice',
+      email: 'alice@example.com',
+    });
+    expect(bobMock).not.toHaveBeenCalled();
+    expect(idsMock).not.toHaveBeenCalled();
+    expect(users.getIds()).toEqual([1, 2]);
+  });
+
+  test('removeOne removes the entity and its id', () => {
+    const { store, users } = setup();
+    const bobMock = mock(() => {});
+    store.__addSubscriber__(bobMock, 'users.entities.2');
+
+    users.removeOne(1);
+
+    expect(users.getIds()).toEqual([2]);
+    expect(users.getEntity(1)).toBeUndefined();
+    expect(store.getState().users.entities).toEqual({ 2: bob });
+    expect(bobMock).not.toHaveBeenCalled();
+  });
+
+  test('throw for ids containing a "."', () => {
+    const adapter = createEntityAdapter<{ email: string }>({
+      selectId: contact => contact.email,
+    });
+    const store = watcherStore({ contacts: adapter.getInitialState() });
+    const contacts = adapter.bind(store, 'contacts');
+    const error =
+      'Cannot use entity id "ann@example.com", ids containing "." are not supported';
+
+    expect(() =>
+      contacts.addMany([{ email: 'bob' }, { email: 'ann@example.com' }])
+    ).toThrow(error);
+    expect(() => contacts.upsertOne({ email: 'ann@example.com' })).toThrow(
+      error
+    );
+    expect(() =>
+      adapter.getInitialState([{ email: 'ann@example.com' }])
+    ).toThrow(error);
+    expect(() =>
+      renderHook(() => contacts.useEntity('ann@example.com'))
+    ).toThrow(error);
+    // nothing is written
+    expect(store.getState().contacts).toEqual({ ids: [], entities: {} });
+  });
+
+  test('setAll only touches the entities which changed', () => {
+    const { store, users } = setup();
+    const aliceMock = mock(() => {});
+    const bobMock = mock(() => {});
+    store.__addSubscriber__(aliceMock, 'users.entities.1');
+    store.__addSubscriber__(bobMock, 'users.entities.2');
+
+    users.setAll([alice, carol]);
+
+    expect(users.getIds()).toEqual([1, 3]);
+    expect(users.getAll()).toEqual([alice, carol]);
+    expect(aliceMock).not.toHaveBeenCalled();
+    expect(bobMock).toHaveBeenCalledWith(undefined);
+  });
+
+  test('writes are batched into a single notification', () => {
+    const { store, users } = setup([]);
+    const stateMock = mock(() => {});
+    store.__addSubscriber__(stateMock);
+
+    users.addMany([alice, bob, carol]);
+
+    expect(stateMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('useEntity, useIds and useAll', () => {
+    const { users } = setup();
+    const entityHook = renderHook(() => users.useEntity(2));
+    const idsHook = renderHook(() => users.useIds());
+    const allHook = renderHook(() => users.useAll());
+    const ids = idsHook.result.current;
+    const all = allHook.result.current;
+
+    expect(entityHook.result.current).toBe(bob);
+    expect(ids).toEqual([1, 2]);
+    expect(all).toEqual([alice, bob]);
+
+    act(() => {
+      users.updateOne(1, { name: 'Alicia' });
+    });
+
+    expect(entityHook.result.current).toBe(bob);
+    expect(idsHook.result.current).toBe(ids);
+    expect(allHook.result.current).toEqual([{ id: 1, name: 'Alicia' }, bob]);
+
+    act(() => {
+      users.removeOne(2);
+    });
+
+    expect(entityHook.result.current).toBeUndefined();
+    expect(idsHook.result.current).toEqual([1]);
+  });
+});
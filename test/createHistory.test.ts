@@ -0,0 +1,235 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { createHistory } from '../src/createHistory';
+import { watcherStore } from '../src/watcherStore';
+import { useWatcherMap } from '../src/useWatcherMap';
+
+describe('createHistory', () => {
+  const initialState = {
+    document: {
+      title: 'Untitled',
+      blocks: ['intro'],
+    },
+    sidebarOpen: false,
+  };
+
+  test('undo and redo a setPath', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.setPath('document.title', 'Hello');
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+
+    history.undo();
+    expect(store.getPath('document.title')).toBe('Untitled');
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+
+    history.redo();
+    expect(store.getPath('document.title')).toBe('Hello');
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  test('undo clearPath and setState', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.clearPath('document.title');
+    store.setState({ ...store.getState(), sidebarOpen: true });
+
+    history.undo();
+    expect(store.getState()).toEqual({
+      document: { blocks: ['intro'] } as any,
+      sidebarOpen: false,
+    });
+
+    history.undo();
+    expect(store.getState()).toEqual(initialState);
+  });
+
+  test('undo a path that did not exist by clearing it', () => {
+    const store = watcherStore<Record<string, any>>({});
+    const history = createHistory(store);
+
+    store.setPath('title', 'Hello');
+    history.undo();
+
+    expect('title' in store.getState()).toBe(false);
+  });
+
+  test('record a batch as a single step', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.batch(() => {
+      store.setPath('document.title', 'One');
+      store.setPath('document.title', 'Two');
+      store.setPath('document.blocks', ['intro', 'body']);
+    });
+
+    history.undo();
+    expect(store.getState()).toEqual(initialState);
+    expect(history.getPath('canUndo')).toBe(false);
+
+    history.redo();
+    expect(store.getPath('document.title')).toBe('Two');
+    expect(store.getPath('document.blocks')).toEqual(['intro', 'body']);
+  });
+
+  test('a new change clears the redo stack', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.setPath('document.title', 'One');
+    history.undo();
+    store.setPath('document.title', 'Two');
+
+    expect(history.getPath('canRedo')).toBe(false);
+    history.redo();
+    expect(store.getPath('document.title')).toBe('Two');
+  });
+
+  test('only keep `limit` steps', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store, { limit: 2 });
+
+    store.setPath('document.title', 'One');
+    store.setPath('document.title', 'Two');
+    store.setPath('document.title', 'Three');
+
+    history.undo();
+    history.undo();
+    history.undo();
+
+    expect(store.getPath('document.title')).toBe('One');
+  });
+
+  test('only record changes under `paths`', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store, { paths: ['document.*'] });
+
+    store.setPath('sidebarOpen', true);
+    expect(history.getPath('canUndo')).toBe(false);
+
+    store.batch(() => {
+      store.setPath('document.title', 'Hello');
+      store.setPath('sidebarOpen', false);
+    });
+    history.undo();
+
+    expect(store.getPath('document.title')).toBe('Untitled');
+    expect(store.getPath('sidebarOpen')).toBe(false);
+  });
+
+  test('setState is narrowed to the recorded paths', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store, { paths: ['document'] });
+
+    store.setState({
+      document: { title: 'Hello', blocks: [] },
+      sidebarOpen: true,
+    });
+    history.undo();
+
+    expect(store.getPath('document')).toEqual(initialState.document);
+    expect(store.getPath('sidebarOpen')).toBe(true);
+  });
+
+  test('undo only notifies the paths that changed', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+    const titleFn = mock(() => {});
+    const sidebarFn = mock(() => {});
+
+    store.setPath('document.title', 'Hello');
+    store.__addSubscriber__(titleFn, 'document.title');
+    store.__addSubscriber__(sidebarFn, 'sidebarOpen');
+
+    history.undo();
+
+    expect(titleFn).toHaveBeenCalledTimes(1);
+    expect(titleFn).toHaveBeenCalledWith('Untitled');
+    expect(sidebarFn).not.toHaveBeenCalled();
+  });
+
+  test('undo and redo are not recorded as new steps', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.setPath('document.title', 'Hello');
+    history.undo();
+    history.redo();
+    history.undo();
+
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+  });
+
+  test('undo inside a batch is not recorded as a new step', async () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.setPath('document.title', 'Hello');
+    store.batch(() => history.undo());
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+
+    await store.batchAsync(async () => history.redo());
+    expect(store.getPath('document.title')).toBe('Hello');
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  test('record the other changes of a batch which undoes', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    store.setPath('document.title', 'Hello');
+    store.batch(() => {
+      history.undo();
+      store.setPath('document.blocks', []);
+    });
+
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+    history.undo();
+    expect(store.getPath('document.blocks')).toEqual(['intro']);
+  });
+
+  test('stop recording after dispose', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    history.dispose();
+    store.setPath('document.title', 'Hello');
+
+    expect(history.getPath('canUndo')).toBe(false);
+  });
+
+  test('canUndo is watchable with usePath', () => {
+    const store = watcherStore(initialState);
+    const history = createHistory(store);
+
+    const { result } = renderHook(() => history.usePath('canUndo'));
+    expect(result.current).toBe(false);
+
+    act(() => {
+      store.setPath('document.title', 'Hello');
+    });
+    expect(result.current).toBe(true);
+
+    act(() => {
+      history.undo();
+    });
+    expect(result.current).toBe(false);
+  });
+
+  test('work with useWatcherMap', () => {
+    const { result } = renderHook(() => useWatcherMap(initialState));
+    const history = createHistory(result.current);
+
+    act(() => {
+      result.current.setPath('sidebarOpen', true);
+    });
+    act(() => {
+      history.undo();
+    });
+
+    expect(result.current.getPath('sidebarOpen')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect, spyOn } from 'bun:test';
+import { render, renderHook, act } from '@testing-library/react';
+import { createStoreContext } from '../src/createStoreContext';
+import { watcherStore } from '../src/watcherStore';
+
+type Document = { title: string; body: string };
+
+const DocumentStore = createStoreContext(() =>
+  watcherStore<Document>({ title: 'Untitled', body: '' })
+);
+
+const Title = ({ testId }: { testId: string }) => (
+  <p data-testid={testId}>{DocumentStore.usePath('title')}</p>
+);
+
+describe('createStoreContext', () => {
+  test('create an instance per Provider', () => {
+    let first: ReturnType<typeof DocumentStore.useStore> | undefined;
+    const Capture = () => {
+      first = DocumentStore.useStore();
+      return null;
+    };
+
+    const { getByTestId } = render(
+      <>
+        <DocumentStore.Provider>
+          <Capture />
+          <Title testId="first" />
+        </DocumentStore.Provider>
+        <DocumentStore.Provider initialState={{ title: 'Notes', body: '' }}>
+          <Title testId="second" />
+        </DocumentStore.Provider>
+      </>
+    );
+
+    expect(getByTestId('first').textContent).toBe('Untitled');
+    expect(getByTestId('second').textContent).toBe('Notes');
+
+    act(() => {
+      first!.setPath('title', 'Draft');
+    });
+    expect(getByTestId('first').textContent).toBe('Draft');
+    expect(getByTestId('second').textContent).toBe('Notes');
+  });
+
+  test('read the nearest Provider with useState', () => {
+    const { result } = renderHook(() => DocumentStore.useState(), {
+      wrapper: ({ children }) => (
+        <DocumentStore.Provider initialState={{ title: 'Outer', body: '' }}>
+          <DocumentStore.Provider initialState={{ title: 'Inner', body: '' }}>
+            {children}
+          </DocumentStore.Provider>
+        </DocumentStore.Provider>
+      ),
+    });
+
+    expect(result.current).toEqual({ title: 'Inner', body: '' });
+  });
+
+  test('re-seed when initialState changes by value', () => {
+    const Editor = ({ document }: { document: Document }) => (
+      <DocumentStore.Provider initialState={document}>
+        <Title testId="title" />
+        <Edit />
+      </DocumentStore.Provider>
+    );
+    let store: ReturnType<typeof DocumentStore.useStore> | undefined;
+    const Edit = () => {
+      store = DocumentStore.useStore();
+      return null;
+    };
+
+    const { getByTestId, rerender } = render(
+      <Editor document={{ title: 'One', body: '' }} />
+    );
+    act(() => {
+      store!.setPath('title', 'Edited');
+    });
+
+    // a new literal with the same value keeps the edits
+    rerender(<Editor document={{ title: 'One', body: '' }} />);
+    expect(getByTestId('title').textContent).toBe('Edited');
+
+    rerender(<Editor document={{ title: 'Two', body: '' }} />);
+    expect(getByTestId('title').textContent).toBe('Two');
+  });
+
+  test('throw outside of a Provider', () => {
+    // React logs the error thrown during render
+    const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => DocumentStore.usePath('title'))).toThrow(
+      'Cannot use store context, no Provider above this component'
+    );
+    consoleError.mockRestore();
+  });
+});
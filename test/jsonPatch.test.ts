@@ -0,0 +1,317 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { fromJsonPointer, toJsonPointer } from '../src/jsonPatch';
+import { watcherStore } from '../src/watcherStore';
+
+describe('jsonPatch', () => {
+  describe('toJsonPointer', () => {
+    test('convert a dotted path', () => {
+      expect(toJsonPointer('todos.0.completed')).toBe('/todos/0/completed');
+    });
+
+    test('convert the entire state to the root pointer', () => {
+      expect(toJsonPointer(null)).toBe('');
+    });
+
+    test('escape ~ and /', () => {
+      expect(toJsonPointer('a/b.c~d')).toBe('/a~1b/c~0d');
+    });
+  });
+
+  describe('fromJsonPointer', () => {
+    test('convert a pointer into segments', () => {
+      expect(fromJsonPointer('/todos/0/completed')).toEqual([
+        'todos',
+        '0',
+        'completed',
+      ]);
+      expect(fromJsonPointer('')).toEqual([]);
+    });
+
+    test('unescape ~1 and ~0', () => {
+      expect(fromJsonPointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+    });
+
+    test('throw for a pointer without a leading slash', () => {
+      expect(() => fromJsonPointer('todos/0')).toThrow(
+        'Invalid JSON Pointer "todos/0"'
+      );
+    });
+  });
+
+  describe('onPatch', () => {
+    const initialState = {
+      todos: [{ text: 'Learn React', completed: false }],
+      filter: 'all' as string | undefined,
+      user: undefined as { name: string } | undefined,
+    };
+
+    test('report setPath as replace, with the inverse', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.setPath('todos.0.completed', true);
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'replace', path: '/todos/0/completed', value: true }],
+        [{ op: 'replace', path: '/todos/0/completed', value: false }]
+      );
+    });
+
+    test('report setPath on a new path as add', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.setPath('user', { name: 'Alice' });
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'add', path: '/user', value: { name: 'Alice' } }],
+        [{ op: 'remove', path: '/user' }]
+      );
+    });
+
+    test('report clearPath as remove', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.clearPath('filter');
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'remove', path: '/filter' }],
+        [{ op: 'add', path: '/filter', value: 'all' }]
+      );
+    });
+
+    test('report clearing an array item as replacing it with null', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.clearPath('todos.0');
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'replace', path: '/todos/0', value: null }],
+        [{ op: 'replace', path: '/todos/0', value: initialState.todos[0] }]
+      );
+    });
+
+    test('report setState as replacing the root', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+      const nextState = { ...initialState, filter: 'completed' };
+
+      store.setState(nextState);
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'replace', path: '', value: nextState }],
+        [{ op: 'replace', path: '', value: initialState }]
+      );
+    });
+
+    test('report a batch once, with the inverse in reverse order', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.batch(() => {
+        store.setPath('filter', 'active');
+        store.setPath('filter', 'completed');
+        store.setPath('user', { name: 'Alice' });
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        [
+          { op: 'replace', path: '/filter', value: 'active' },
+          { op: 'replace', path: '/filter', value: 'completed' },
+          { op: 'add', path: '/user', value: { name: 'Alice' } },
+        ],
+        [
+          { op: 'remove', path: '/user' },
+          { op: 'replace', path: '/filter', value: 'active' },
+          { op: 'replace', path: '/filter', value: 'all' },
+        ]
+      );
+    });
+
+    test('skip writes which do not change the value', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      store.onPatch(listener);
+
+      store.setPath('filter', 'all');
+      store.clearPath('user');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('stop reporting after unsubscribing', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+      const unsubscribe = store.onPatch(listener);
+
+      unsubscribe();
+      store.setPath('filter', 'completed');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyPatches', () => {
+    const initialState = {
+      todos: ['a', 'b', 'c'],
+      user: { name: 'Alice', tags: [] as string[] } as Record<string, any>,
+      filter: 'all',
+    };
+
+    test('add, replace and remove object keys', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([
+        { op: 'add', path: '/user/email', value: 'alice@example.com' },
+        { op: 'replace', path: '/user/name', value: 'Bob' },
+        { op: 'remove', path: '/filter' },
+      ]);
+
+      expect(store.getState()).toEqual({
+        todos: ['a', 'b', 'c'],
+        user: { name: 'Bob', tags: [], email: 'alice@example.com' },
+      } as any);
+    });
+
+    test('add inserts into an array and - appends', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([
+        { op: 'add', path: '/todos/1', value: 'x' },
+        { op: 'add', path: '/todos/-', value: 'z' },
+      ]);
+
+      expect(store.getPath('todos')).toEqual(['a', 'x', 'b', 'c', 'z']);
+    });
+
+    test('remove shifts the array items after it', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([{ op: 'remove', path: '/todos/0' }]);
+
+      expect(store.getPath('todos')).toEqual(['b', 'c']);
+    });
+
+    test('move and copy', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([
+        { op: 'move', from: '/todos/0', path: '/todos/-' },
+        { op: 'copy', from: '/filter', path: '/user/filter' },
+      ]);
+
+      expect(store.getPath('todos')).toEqual(['b', 'c', 'a']);
+      expect(store.getPath('user.filter')).toBe('all');
+    });
+
+    test('replace the entire state with the root pointer', () => {
+      const store = watcherStore(initialState);
+      const nextState = { ...initialState, filter: 'done' };
+
+      store.applyPatches([{ op: 'replace', path: '', value: nextState }]);
+
+      expect(store.getState()).toBe(nextState);
+    });
+
+    test('keep unchanged branches by reference', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([{ op: 'replace', path: '/user/name', value: 'Bob' }]);
+
+      expect(store.getPath('todos')).toBe(initialState.todos);
+      expect(store.getPath('user.tags')).toBe(initialState.user.tags);
+    });
+
+    test('notify once, for the touched paths only', () => {
+      const store = watcherStore(initialState);
+      const userFn = mock(() => {});
+      const todosFn = mock(() => {});
+      const filterFn = mock(() => {});
+      store.__addSubscriber__(userFn, 'user');
+      store.__addSubscriber__(todosFn, 'todos');
+      store.__addSubscriber__(filterFn, 'filter');
+
+      store.applyPatches([
+        { op: 'replace', path: '/user/name', value: 'Bob' },
+        { op: 'add', path: '/user/email', value: 'bob@example.com' },
+        { op: 'add', path: '/todos/-', value: 'd' },
+      ]);
+
+      expect(userFn).toHaveBeenCalledTimes(1);
+      expect(todosFn).toHaveBeenCalledTimes(1);
+      expect(filterFn).not.toHaveBeenCalled();
+    });
+
+    test('a failed test aborts the whole patch', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn);
+
+      expect(() =>
+        store.applyPatches([
+          { op: 'replace', path: '/filter', value: 'done' },
+          { op: 'test', path: '/user', value: { name: 'Bob', tags: [] } },
+          { op: 'add', path: '/todos/-', value: 'd' },
+        ])
+      ).toThrow('Test failed at "/user"');
+
+      expect(store.getState()).toBe(initialState);
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test('a passing test compares by value', () => {
+      const store = watcherStore(initialState);
+
+      store.applyPatches([
+        { op: 'test', path: '/user', value: { name: 'Alice', tags: [] } },
+        { op: 'replace', path: '/filter', value: 'done' },
+      ]);
+
+      expect(store.getPath('filter')).toBe('done');
+    });
+
+    test('throw for invalid paths and indices', () => {
+      const store = watcherStore(initialState);
+
+      expect(() =>
+        store.applyPatches([{ op: 'add', path: '/todos/5', value: 'x' }])
+      ).toThrow('Array index "5" is out of bounds');
+      expect(() =>
+        store.applyPatches([{ op: 'remove', path: '/missing' }])
+      ).toThrow('No value at "/missing"');
+      expect(() =>
+        store.applyPatches([{ op: 'add', path: '/missing/key', value: 1 }])
+      ).toThrow('No object or array at "/missing"');
+      expect(store.getState()).toBe(initialState);
+    });
+
+    test('round trip the patches reported by onPatch', () => {
+      const source = watcherStore(initialState);
+      const replica = watcherStore(initialState);
+      let inverse: any[] = [];
+      source.onPatch((patches, inversePatches) => {
+        replica.applyPatches(patches);
+        inverse = inversePatches;
+      });
+
+      source.batch(() => {
+        source.setPath('user.name', 'Bob');
+        source.setPath('user.email', 'bob@example.com');
+        source.clearPath('filter');
+      });
+      expect(replica.getState()).toEqual(source.getState());
+
+      replica.applyPatches(inverse);
+      expect(replica.getState()).toEqual(initialState);
+    });
+  });
+});
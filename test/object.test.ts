@@ -2,7 +2,12 @@ import {
   setDeepPathClone,
   getDeepPath,
   deleteDeepPathClone,
+  getChangedIndices,
+  getChangedPaths,
+  getWildcardValues,
+  isDeepEqual,
   isShallowEqual,
+  isWildcardPath,
 } from '../src/object';
 import { describe, it, expect } from 'bun:test';
 
@@ -511,3 +516,214 @@ describe('deleteDeepPathClone', () => {
     expect(initial.a.b).toEqual({ c: 123, d: 456 });
   });
 });
+
+describe('getChangedPaths', () => {
+  it('should demonstrate the example from the function comment', () => {
+    const prev = { user: { name: 'Alice', age: 30 }, todos: [] };
+    const next = { user: { ...prev.user, name: 'Bob' }, todos: prev.todos };
+
+    expect(getChangedPaths(prev, next)).toEqual(['user.name']);
+    expect(getChangedPaths(prev, next, 1)).toEqual(['user']);
+    expect(getChangedPaths(prev, { todos: [1] })).toEqual([
+      'user',
+      'todos.0',
+      'todos.length',
+    ]);
+  });
+
+  it('should return nothing for the same reference', () => {
+    const state = { a: { b: 1 } };
+    expect(getChangedPaths(state, state)).toEqual([]);
+  });
+
+  it('should include added and removed keys', () => {
+    expect(getChangedPaths({ a: 1, b: 2 }, { a: 1, c: 3 })).toEqual(['b', 'c']);
+  });
+
+  it('should walk into arrays by index', () => {
+    const prev = { todos: [{ done: false }, { done: false }] };
+    const next = { todos: [prev.todos[0], { done: true }, { done: false }] };
+
+    expect(getChangedPaths(prev, next)).toEqual([
+      'todos.1.done',
+      'todos.2',
+      'todos.length',
+    ]);
+  });
+
+  it('should include the length of an array which only got shorter', () => {
+    expect(getChangedPaths({ a: ['a', undefined] }, { a: ['a'] })).toEqual([
+      'a.length',
+    ]);
+  });
+
+  it('should not walk into values which change type', () => {
+    expect(getChangedPaths({ a: [1] }, { a: { 0: 1 } })).toEqual(['a']);
+    expect(getChangedPaths({ a: null }, { a: { b: 1 } })).toEqual(['a']);
+    expect(getChangedPaths({ a: { b: 1 } }, { a: 'text' })).toEqual(['a']);
+  });
+
+  it('should include a new reference with the same contents', () => {
+    expect(getChangedPaths({ a: { b: 1 } }, { a: { b: 1 } })).toEqual(['a']);
+    expect(getChangedPaths({ a: [1] }, { a: [1] })).toEqual(['a']);
+  });
+
+  it('should not walk into values which are not plain objects or arrays', () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const prev = {
+      date: new Date(0),
+      map: new Map([[1, 1]]),
+      set: new Set([1]),
+      promise: Promise.resolve(1),
+      point: new Point(1),
+    };
+    const next = {
+      date: new Date(0),
+      map: new Map([[1, 1]]),
+      set: new Set([1]),
+      promise: Promise.resolve(1),
+      point: new Point(1),
+    };
+
+    expect(getChangedPaths(prev, next)).toEqual([
+      'date',
+      'map',
+      'set',
+      'promise',
+      'point',
+    ]);
+  });
+});
+
+describe('isWildcardPath', () => {
+  it('should detect * and ** segments', () => {
+    expect(isWildcardPath(['todos', '*', 'completed'])).toBe(true);
+    expect(isWildcardPath(['todos', '**'])).toBe(true);
+    expect(isWildcardPath(['todos', '0', 'completed'])).toBe(false);
+    expect(isWildcardPath(['todos*'])).toBe(false);
+  });
+});
+
+describe('getWildcardValues', () => {
+  const state = {
+    todos: [
+      { text: 'Learn React', completed: true },
+      { text: 'Build a project', completed: false },
+    ],
+  };
+
+  it('should demonstrate the example from the function comment', () => {
+    expect(getWildcardValues(state, ['todos', '*', 'completed'])).toEqual([
+      true,
+      false,
+    ]);
+    expect(getWildcardValues(state, ['todos', '**'])).toEqual([
+      state.todos[0],
+      'Learn React',
+      true,
+      state.todos[1],
+      'Build a project',
+      false,
+    ]);
+  });
+
+  it('should give undefined for items missing the rest of the path', () => {
+    const users = { a: { name: 'Alice' }, b: {} };
+    expect(getWildcardValues(users, ['*', 'name'])).toEqual([
+      'Alice',
+      undefined,
+    ]);
+  });
+
+  it('should skip keys missing the rest of the path after **', () => {
+    const tree = { a: { x: { name: 1, age: 2 }, y: { z: { name: 3 } } } };
+    expect(getWildcardValues(tree, ['a', '**', 'name'])).toEqual([1, 3]);
+    expect(getWildcardValues(state, ['**', 'completed'])).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it('should match nothing below a primitive', () => {
+    expect(getWildcardValues({ a: 1 }, ['a', '*'])).toEqual([]);
+    expect(getWildcardValues(undefined, ['*'])).toEqual([]);
+  });
+});
+
+describe('getChangedIndices', () => {
+  it('should demonstrate the example from the function comment', () => {
+    const prev = ['a', 'b', 'c'];
+
+    expect(getChangedIndices(prev, ['a', 'c'])).toEqual([1, 2]);
+    expect(getChangedIndices(prev, ['a', 'b', 'c', 'd'])).toEqual([3]);
+    expect(getChangedIndices(prev, ['c', 'b', 'a'])).toEqual([0, 2]);
+  });
+});
+
+describe('isDeepEqual', () => {
+  it('should demonstrate the example from the function comment', () => {
+    expect(isDeepEqual([{ a: 1 }], [{ a: 1 }])).toBe(true);
+    expect(isDeepEqual({ a: { b: 1 } }, { a: { b: 2 } })).toBe(false);
+    expect(isDeepEqual([], {})).toBe(false);
+    expect(isDeepEqual(0, -0)).toBe(false);
+  });
+
+  it('should compare nested arrays, objects and dates', () => {
+    const left = { list: [1, [2, 3]], at: new Date(0), name: 'a' };
+
+    expect(
+      isDeepEqual(left, { list: [1, [2, 3]], at: new Date(0), name: 'a' })
+    ).toBe(true);
+    expect(
+      isDeepEqual(left, { list: [1, [2, 4]], at: new Date(0), name: 'a' })
+    ).toBe(false);
+    expect(
+      isDeepEqual(left, { list: [1, [2, 3]], at: new Date(1), name: 'a' })
+    ).toBe(false);
+    expect(isDeepEqual({ a: undefined }, { b: undefined })).toBe(false);
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+  });
+
+  it('should compare maps, sets and regexps by their contents', () => {
+    expect(
+      isDeepEqual(new Map([[1, { a: 1 }]]), new Map([[1, { a: 1 }]]))
+    ).toBe(true);
+    expect(isDeepEqual(new Map([[1, 1]]), new Map([[2, 2]]))).toBe(false);
+    expect(isDeepEqual(new Map([[1, 1]]), new Map([[1, 2]]))).toBe(false);
+
+    expect(isDeepEqual(new Set([1, { a: 1 }]), new Set([1, { a: 1 }]))).toBe(
+      true
+    );
+    expect(isDeepEqual(new Set([1]), new Set([2]))).toBe(false);
+    expect(isDeepEqual(new Set([{ a: 1 }]), new Set([{ a: 2 }]))).toBe(false);
+
+    expect(isDeepEqual(/a/g, /a/g)).toBe(true);
+    expect(isDeepEqual(/a/g, /b/g)).toBe(false);
+    expect(isDeepEqual(/a/g, /a/i)).toBe(false);
+  });
+
+  it('should only match other objects to themselves', () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const promise = Promise.resolve(1);
+
+    expect(isDeepEqual(promise, promise)).toBe(true);
+    expect(isDeepEqual(promise, Promise.resolve(1))).toBe(false);
+    expect(isDeepEqual(new Point(1), new Point(1))).toBe(false);
+  });
+
+  it('should handle circular references', () => {
+    const left: Record<string, any> = { name: 'a' };
+    left.self = left;
+    const right: Record<string, any> = { name: 'a' };
+    right.self = right;
+
+    expect(isDeepEqual(left, right)).toBe(true);
+
+    right.name = 'b';
+    expect(isDeepEqual(left, right)).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, test, expect } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { createMemoryStorage, persist } from '../src/persist';
+import { watcherStore } from '../src/watcherStore';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('persist', () => {
+  const initialState = {
+    theme: 'light',
+    auth: { userId: null as number | null, token: null as string | null },
+    sidebarOpen: false,
+  };
+
+  test('hydrate from sync storage before returning', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      'app',
+      JSON.stringify({ version: 0, state: { theme: 'dark' } })
+    );
+    const store = watcherStore(initialState);
+
+    const persisted = persist(store, { key: 'app', storage });
+
+    expect(store.getPath('theme')).toBe('dark');
+    expect(store.getPath('sidebarOpen')).toBe(false);
+    expect(persisted.getPath('hydrated')).toBe(true);
+  });
+
+  test('hydrate from async storage', async () => {
+    const memory = createMemoryStorage();
+    memory.setItem(
+      'app',
+      JSON.stringify({ version: 0, state: { theme: 'dark' } })
+    );
+    const storage = {
+      getItem: async (key: string) => memory.getItem(key),
+      setItem: async (key: string, value: string) => memory.setItem(key, value),
+      removeItem: async (key: string) => memory.removeItem(key),
+    };
+    const store = watcherStore(initialState);
+
+    const persisted = persist(store, { key: 'app', storage });
+    expect(persisted.getPath('hydrated')).toBe(false);
+
+    await wait(0);
+    expect(store.getPath('theme')).toBe('dark');
+    expect(persisted.getPath('hydrated')).toBe(true);
+  });
+
+  test('write changes to storage, throttled', async () => {
+    const storage = createMemoryStorage();
+    const store = watcherStore(initialState);
+    persist(store, { key: 'app', storage, throttle: 10 });
+
+    store.setPath('theme', 'dark');
+    store.setPath('sidebarOpen', true);
+    expect(storage.items.has('app')).toBe(false);
+
+    await wait(20);
+    expect(JSON.parse(storage.items.get('app')!)).toEqual({
+      version: 0,
+      state: { ...initialState, theme: 'dark', sidebarOpen: true },
+    });
+  });
+
+  test('only persist included paths, without the excluded ones', async () => {
+    const storage = createMemoryStorage();
+    const store = watcherStore(initialState);
+    const persisted = persist(store, {
+      key: 'app',
+      storage,
+      include: ['theme', 'auth'],
+      exclude: ['auth.token'],
+    });
+
+    store.setPath('sidebarOpen', true);
+    await persisted.flush();
+    expect(storage.items.has('app')).toBe(false);
+
+    store.batch(() => {
+      store.setPath('auth.userId', 9);
+      store.setPath('auth.token', 'secret');
+    });
+    await persisted.flush();
+
+    expect(JSON.parse(storage.items.get('app')!).state).toEqual({
+      theme: 'light',
+      auth: { userId: 9 },
+    });
+  });
+
+  test('excluded paths keep their current value on hydration', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      'app',
+      JSON.stringify({ version: 0, state: { auth: { userId: 9 } } })
+    );
+    const store = watcherStore({
+      ...initialState,
+      auth: { userId: null, token: 'current' },
+    });
+
+    persist(store, { key: 'app', storage, exclude: ['auth.token'] });
+
+    expect(store.getPath('auth')).toEqual({ userId: 9, token: 'current' });
+  });
+
+  test('run migrate when the version does not match', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      'app',
+      JSON.stringify({ version: 1, state: { darkMode: true } })
+    );
+    const store = watcherStore(initialState);
+
+    persist(store, {
+      key: 'app',
+      storage,
+      version: 2,
+      migrate: (oldState, oldVersion) => {
+        expect(oldVersion).toBe(1);
+        return { theme: oldState.darkMode ? 'dark' : 'light' };
+      },
+    });
+
+    expect(store.getPath('theme')).toBe('dark');
+  });
+
+  test('ignore a persisted state with another version and no migrate', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      'app',
+      JSON.stringify({ version: 1, state: { theme: 'dark' } })
+    );
+    const store = watcherStore(initialState);
+
+    const persisted = persist(store, { key: 'app', storage, version: 2 });
+
+    expect(store.getPath('theme')).toBe('light');
+    expect(persisted.getPath('hydrated')).toBe(true);
+  });
+
+  test('do not persist before async hydration completes', async () => {
+    const memory = createMemoryStorage();
+    memory.setItem(
+      'app',
+      JSON.stringify({ version: 0, state: { theme: 'dark' } })
+    );
+    const storage = {
+      ...memory,
+      getItem: async (key: string) => memory.getItem(key),
+    };
+    const store = watcherStore(initialState);
+
+    const persisted = persist(store, { key: 'app', storage, throttle: 0 });
+    store.setPath('sidebarOpen', true);
+    await wait(10);
+
+    expect(persisted.getPath('hydrated')).toBe(true);
+    expect(JSON.parse(memory.items.get('app')!).state).toEqual({
+      theme: 'dark',
+    });
+  });
+
+  test('hydrated can be watched with usePath', async () => {
+    const storage = {
+      ...createMemoryStorage(),
+      getItem: async () => null,
+    };
+    const store = watcherStore(initialState);
+    const persisted = persist(store, { key: 'app', storage });
+
+    const { result } = renderHook(() => persisted.usePath('hydrated'));
+    expect(result.current).toBe(false);
+
+    await act(() => wait(0));
+    expect(result.current).toBe(true);
+  });
+
+  test('clear removes the persisted state', async () => {
+    const storage = createMemoryStorage();
+    const store = watcherStore(initialState);
+    const persisted = persist(store, { key: 'app', storage });
+
+    store.setPath('theme', 'dark');
+    await persisted.flush();
+    expect(storage.items.has('app')).toBe(true);
+
+    await persisted.clear();
+    expect(storage.items.has('app')).toBe(false);
+  });
+
+  test('record a write error without throwing', async () => {
+    const error = new Error('QuotaExceededError');
+    const memory = createMemoryStorage();
+    const store = watcherStore(initialState);
+    const persisted = persist(store, {
+      key: 'app',
+      throttle: 0,
+      storage: {
+        ...memory,
+        setItem: () => {
+          throw error;
+        },
+      },
+    });
+    const rejecting = watcherStore(initialState);
+    const rejected = persist(rejecting, {
+      key: 'app',
+      throttle: 0,
+      storage: {
+        ...memory,
+        setItem: async () => {
+          throw error;
+        },
+      },
+    });
+
+    store.setPath('theme', 'dark');
+    rejecting.setPath('theme', 'dark');
+    await wait(10);
+
+    expect(persisted.getPath('error')).toBe(error);
+    expect(rejected.getPath('error')).toBe(error);
+  });
+
+  test('record a read error without throwing', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('app', JSON.stringify({ version: 1, state: {} }));
+    const store = watcherStore(initialState);
+
+    const persisted = persist(store, {
+      key: 'app',
+      storage,
+      migrate: () => {
+        throw new Error('cannot migrate');
+      },
+    });
+
+    expect(persisted.getPath('hydrated')).toBe(false);
+    expect(persisted.getPath('error')).toBeInstanceOf(Error);
+  });
+});
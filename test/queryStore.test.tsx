@@ -0,0 +1,203 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { queryStore } from '../src/queryStore';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('queryStore', () => {
+  beforeEach(() => {
+    mock.restore();
+  });
+
+  test('fetch when the first subscriber mounts', async () => {
+    const fetcher = mock(async (id: number) => `user ${id}`);
+    const users = queryStore({ key: (id: number) => `user/${id}`, fetcher });
+    const user = users.query(1);
+
+    expect(fetcher).not.toHaveBeenCalled();
+
+    const { result } = renderHook(() =>
+      user.usePaths(['data', 'isFetching', 'updatedAt'])
+    );
+    expect(result.current).toEqual([undefined, true, null]);
+    expect(fetcher).toHaveBeenCalledWith(1);
+
+    await act(() => wait(0));
+    expect(result.current[0]).toBe('user 1');
+    expect(result.current[1]).toBe(false);
+    expect(result.current[2]).toBeNumber();
+  });
+
+  test('share one query per key and dedupe fetches', async () => {
+    const fetcher = mock(async (id: number) => `user ${id}`);
+    const users = queryStore({ key: (id: number) => `user/${id}`, fetcher });
+
+    expect(users.query(1)).toBe(users.query(1));
+    expect(users.query(1)).not.toBe(users.query(2));
+
+    await Promise.all([users.query(1).refetch(), users.query(1).refetch()]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(users.query(1).getPath('data')).toBe('user 1');
+  });
+
+  test('refetch stale data in the background on mount', async () => {
+    let version = 0;
+    const fetcher = mock(async () => ++version);
+    const counter = queryStore({ key: 'counter', fetcher, staleTime: 10 });
+    const query = counter.query();
+
+    const first = renderHook(() => query.usePath('data'));
+    await act(() => wait(0));
+    first.unmount();
+
+    // still fresh, so no fetch
+    const second = renderHook(() => query.usePath('data'));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    second.unmount();
+
+    await wait(20);
+    const third = renderHook(() => query.usePaths(['data', 'isFetching']));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(third.result.current).toEqual([1, true]);
+
+    await act(() => wait(0));
+    expect(third.result.current).toEqual([2, false]);
+    third.unmount();
+  });
+
+  test('drop the cache after the last subscriber unmounts plus cacheTime', async () => {
+    const fetcher = mock(async () => 'data');
+    const resource = queryStore({
+      key: 'resource',
+      fetcher,
+      staleTime: Infinity,
+      cacheTime: 10,
+    });
+    const query = resource.query();
+
+    const { unmount } = renderHook(() => query.usePath('data'));
+    await act(() => wait(0));
+    unmount();
+
+    expect(resource.query()).toBe(query);
+    expect(query.getPath('data')).toBe('data');
+
+    await wait(20);
+    expect(query.getPath('data')).toBeUndefined();
+    expect(resource.query()).not.toBe(query);
+  });
+
+  test('keep the data when a fetch fails', async () => {
+    const error = new Error('Offline');
+    let fail = false;
+    const resource = queryStore({
+      key: 'resource',
+      fetcher: async () => {
+        if (fail) {
+          throw error;
+        }
+        return 'data';
+      },
+    });
+    const query = resource.query();
+
+    await query.refetch();
+    fail = true;
+    await query.refetch();
+
+    expect(query.getState()).toEqual({
+      data: 'data',
+      error,
+      isFetching: false,
+      updatedAt: expect.any(Number),
+    });
+  });
+
+  test('invalidate refetches mounted queries', async () => {
+    const fetcher = mock(async (id: number) => `user ${id}`);
+    const users = queryStore({
+      key: (id: number) => `user/${id}`,
+      fetcher,
+      staleTime: Infinity,
+    });
+
+    const { unmount } = renderHook(() => users.query(1).usePath('data'));
+    await act(() => wait(0));
+    await users.query(2).refetch();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      users.invalidateAll();
+      await wait(0);
+    });
+    // only the mounted query refetches, the other is refetched when mounted
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(fetcher).toHaveBeenLastCalledWith(1);
+    unmount();
+  });
+
+  test('refetch after a fetch which was invalidated while in flight', async () => {
+    let version = 0;
+    const fetcher = mock(async () => {
+      await wait(5);
+      return ++version;
+    });
+    const counter = queryStore({
+      key: 'counter',
+      fetcher,
+      staleTime: Infinity,
+    });
+    const query = counter.query();
+
+    const { result, unmount } = renderHook(() => query.usePath('data'));
+    await act(async () => {
+      query.invalidate();
+      await wait(20);
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(result.current).toBe(2);
+    unmount();
+  });
+
+  test('keep data fetched before an invalidate stale', async () => {
+    let version = 0;
+    const fetcher = mock(async () => {
+      await wait(5);
+      return ++version;
+    });
+    const counter = queryStore({
+      key: 'counter',
+      fetcher,
+      staleTime: Infinity,
+    });
+    const query = counter.query();
+
+    const fetching = query.refetch();
+    query.invalidate();
+    await fetching;
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // not mounted, so it refetches when it is
+    const { unmount } = renderHook(() => query.usePath('data'));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await act(() => wait(10));
+    unmount();
+  });
+
+  test('drop a query which is only refetched after cacheTime', async () => {
+    const resource = queryStore({
+      key: 'resource',
+      fetcher: async () => 'data',
+      cacheTime: 10,
+    });
+    const query = resource.query();
+
+    await query.refetch();
+    expect(resource.query()).toBe(query);
+
+    await wait(20);
+    expect(query.getPath('data')).toBeUndefined();
+    expect(resource.query()).not.toBe(query);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { act } from '@testing-library/react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { computedStore } from '../src/computedStore';
+import {
+  createStoreScope,
+  dehydrate,
+  hydrate,
+  scopedStore,
+  StoreScopeProvider,
+  type StoreScope,
+} from '../src/storeScope';
+import { useComputed } from '../src/useComputed';
+import { useWatcherMap } from '../src/useWatcherMap';
+import { useWatcherPrimitive } from '../src/useWatcherPrimitive';
+import { watcherStore } from '../src/watcherStore';
+
+const userStore = scopedStore('user', () =>
+  watcherStore({ name: 'Guest', visits: 0 })
+);
+
+const Greeting = () => {
+  const name = userStore.useStore().usePath('name');
+  return <p>Hello {name}</p>;
+};
+
+const renderInScope = (scope: StoreScope) =>
+  renderToString(
+    <StoreScopeProvider scope={scope}>
+      <Greeting />
+    </StoreScopeProvider>
+  );
+
+describe('server rendering', () => {
+  test('render the hooks with react-dom/server', () => {
+    const store = watcherStore({ todos: ['a', 'b'] });
+    const count = computedStore(store, state => state.todos.length);
+
+    const App = () => {
+      const todos = store.usePath('todos');
+      const [first] = store.usePaths(['todos.0']);
+      const total = count.useState();
+      const map = useWatcherMap({ filter: 'all' });
+      const filter = map.usePath('filter');
+      const loading = useWatcherPrimitive(false).useState();
+      const upper = useComputed(map, state => state.filter.toUpperCase());
+      return (
+        <p>
+          {todos.join(',')} {first} {total} {filter} {upper.useState()}{' '}
+          {String(loading)}
+        </p>
+      );
+    };
+
+    expect(renderToString(<App />)).toBe(
+      '<p>a,b<!-- --> <!-- -->a<!-- --> <!-- -->2<!-- --> <!-- -->all<!-- --> <!-- -->ALL<!-- --> <!-- -->false</p>'
+    );
+  });
+});
+
+describe('storeScope', () => {
+  test('render each scope against its own instances', () => {
+    const alice = createStoreScope();
+    const bob = createStoreScope();
+    alice.get(userStore).setPath('name', 'Alice');
+    bob.get(userStore).setPath('name', 'Bob');
+
+    expect(renderInScope(alice)).toBe('<p>Hello <!-- -->Alice</p>');
+    expect(renderInScope(bob)).toBe('<p>Hello <!-- -->Bob</p>');
+    expect(alice.get(userStore)).toBe(alice.get(userStore));
+    expect(alice.get(userStore)).not.toBe(bob.get(userStore));
+    // outside of a provider the default scope's instance is untouched
+    expect(renderToString(<Greeting />)).toBe('<p>Hello <!-- -->Guest</p>');
+  });
+
+  test('throw when two scoped stores share a key', () => {
+    const scope = createStoreScope();
+    const other = scopedStore('user', () => watcherStore({ id: 1 }));
+    scope.get(userStore);
+
+    expect(() => scope.get(other)).toThrow(
+      'Cannot get scoped store "user", another scoped store has the same key'
+    );
+  });
+
+  test('hydrate stores created before and after', () => {
+    const settingsStore = scopedStore('settings', () =>
+      watcherStore({ theme: 'light' })
+    );
+    const scope = createStoreScope();
+    const user = scope.get(userStore);
+
+    hydrate(scope, {
+      user: { name: 'Alice', visits: 3 },
+      settings: { theme: 'dark' },
+    });
+
+    expect(user.getState()).toEqual({ name: 'Alice', visits: 3 });
+    expect(scope.get(settingsStore).getPath('theme')).toBe('dark');
+    expect(dehydrate(scope)).toEqual({
+      user: { name: 'Alice', visits: 3 },
+      settings: { theme: 'dark' },
+    });
+  });
+
+  test('hydrate the client from the dehydrated server state', async () => {
+    const serverScope = createStoreScope();
+    serverScope.get(userStore).setPath('name', 'Alice');
+    const html = renderInScope(serverScope);
+    const serialized = JSON.stringify(dehydrate(serverScope));
+
+    const clientScope = createStoreScope();
+    hydrate(clientScope, JSON.parse(serialized));
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    const onRecoverableError = mock(() => {});
+
+    await act(async () => {
+      hydrateRoot(
+        container,
+        <StoreScopeProvider scope={clientScope}>
+          <Greeting />
+        </StoreScopeProvider>,
+        { onRecoverableError }
+      );
+    });
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.textContent).toBe('Hello Alice');
+
+    await act(async () => {
+      clientScope.get(userStore).setPath('name', 'Bob');
+    });
+    expect(container.textContent).toBe('Hello Bob');
+  });
+});
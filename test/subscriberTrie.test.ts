@@ -0,0 +1,149 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { createSubscriberTrie } from '../src/subscriberTrie';
+
+describe('createSubscriberTrie', () => {
+  const state = {
+    user: { name: 'Alice' },
+    username: 'alice',
+    todos: Array.from({ length: 11 }, (_, i) => ({ id: i, done: false })),
+  };
+
+  test('notify exact, parent and child paths', () => {
+    const trie = createSubscriberTrie();
+    const exact = mock(() => {});
+    const parent = mock(() => {});
+    const child = mock(() => {});
+    const sibling = mock(() => {});
+
+    trie.add({ path: 'todos.1', fn: exact });
+    trie.add({ path: 'todos', fn: parent });
+    trie.add({ path: 'todos.1.done', fn: child });
+    trie.add({ path: 'todos.2', fn: sibling });
+
+    trie.notify(state, ['todos.1']);
+
+    expect(exact).toHaveBeenCalledWith(state.todos[1]);
+    expect(parent).toHaveBeenCalledWith(state.todos);
+    expect(child).toHaveBeenCalledWith(false);
+    expect(sibling).not.toHaveBeenCalled();
+  });
+
+  test('match on whole path segments', () => {
+    const trie = createSubscriberTrie();
+    const user = mock(() => {});
+    const todo1 = mock(() => {});
+
+    trie.add({ path: 'user', fn: user });
+    trie.add({ path: 'todos.1', fn: todo1 });
+
+    trie.notify(state, ['username', 'todos.10']);
+
+    expect(user).not.toHaveBeenCalled();
+    expect(todo1).not.toHaveBeenCalled();
+  });
+
+  test('notify subscribers without a path on every write', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+
+    trie.add({ fn });
+    trie.notify(state, ['username']);
+    trie.notify(state, []);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenCalledWith(state);
+  });
+
+  test('call each subscriber once, in the order they subscribed', () => {
+    const trie = createSubscriberTrie();
+    const calls: string[] = [];
+
+    trie.add({ path: 'todos.0.done', fn: () => calls.push('done') });
+    trie.add({ path: 'todos', fn: () => calls.push('todos') });
+    trie.add({ fn: () => calls.push('state') });
+
+    trie.notify(state, ['todos.0', 'todos.0.done']);
+
+    expect(calls).toEqual(['done', 'todos', 'state']);
+  });
+
+  test('register each fn once', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+
+    trie.add({ path: 'user', fn });
+    trie.add({ path: 'username', fn });
+    trie.notify(state, ['username']);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(trie.size()).toBe(1);
+    expect(trie.get(fn)?.path).toBe('user');
+  });
+
+  test('remove subscribers and prune empty branches', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+    const fn2 = mock(() => {});
+
+    trie.add({ path: 'todos.0.done', fn });
+    trie.add({ path: 'todos', fn: fn2 });
+    trie.remove(fn);
+    trie.remove(fn);
+    trie.notify(state, ['todos.0.done']);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(fn2).toHaveBeenCalledTimes(1);
+    expect(trie.values()).toEqual([{ path: 'todos', fn: fn2 }]);
+
+    trie.remove(fn2);
+    expect(trie.size()).toBe(0);
+    expect(trie.collect(['todos.0.done'])).toEqual([]);
+  });
+
+  test('match * against any one segment', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+
+    trie.add({ path: 'todos.*.done', fn });
+
+    trie.notify(state, ['todos.3.done']);
+    trie.notify(state, ['todos.3']);
+    trie.notify(state, ['todos']);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(fn).toHaveBeenLastCalledWith(state.todos.map(todo => todo.done));
+
+    trie.notify(state, ['todos.3.id', 'user']);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test('match ** against any depth', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+
+    trie.add({ path: 'user.**', fn });
+
+    trie.notify(state, ['user.name']);
+    trie.notify(state, ['user']);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenLastCalledWith(['Alice']);
+
+    trie.notify(state, ['username']);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('notify a subscriber of several paths once, with every value', () => {
+    const trie = createSubscriberTrie();
+    const fn = mock(() => {});
+
+    trie.add({ path: ['user.name', 'username'], fn });
+
+    trie.notify(state, ['user', 'username']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(['Alice', 'alice']);
+
+    trie.remove(fn);
+    trie.notify(state, ['user', 'username']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(trie.collect(['user.name'])).toEqual([]);
+  });
+});
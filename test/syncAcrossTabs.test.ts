@@ -0,0 +1,167 @@
+import { describe, test, expect, mock } from 'bun:test';
+import {
+  syncAcrossTabs,
+  type SyncMessage,
+  type SyncTransport,
+} from '../src/syncAcrossTabs';
+import { watcherStore } from '../src/watcherStore';
+
+/**
+ * An in-process channel. Like BroadcastChannel, messages are delivered to
+ * every other transport on the channel, but not back to the sender.
+ */
+const createChannel = () => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const sent: SyncMessage[] = [];
+
+  const createTransport = (): SyncTransport => {
+    let own: ((message: SyncMessage) => void) | null = null;
+    return {
+      postMessage: message => {
+        sent.push(message);
+        for (const listener of listeners) {
+          if (listener !== own) {
+            listener(structuredClone(message));
+          }
+        }
+      },
+      subscribe: listener => {
+        own = listener;
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+  };
+
+  return { createTransport, sent };
+};
+
+describe('syncAcrossTabs', () => {
+  const initialState = {
+    auth: null as { userId: number } | null,
+    theme: 'light',
+    sidebarOpen: false,
+  };
+
+  const createTabs = (paths?: string[]) => {
+    const channel = createChannel();
+    const tabA = watcherStore(initialState);
+    const tabB = watcherStore(initialState);
+    const stopA = syncAcrossTabs(tabA, {
+      channel: 'app',
+      paths,
+      transport: channel.createTransport(),
+    });
+    const stopB = syncAcrossTabs(tabB, {
+      channel: 'app',
+      paths,
+      transport: channel.createTransport(),
+    });
+    return { channel, tabA, tabB, stopA, stopB };
+  };
+
+  test('apply a setPath in the other tab', () => {
+    const { tabA, tabB } = createTabs();
+
+    tabA.setPath('theme', 'dark');
+
+    expect(tabB.getPath('theme')).toBe('dark');
+  });
+
+  test('apply a clearPath in the other tab', () => {
+    const { tabA, tabB } = createTabs();
+
+    tabA.setPath('auth', { userId: 9 });
+    tabA.clearPath('auth');
+
+    expect('auth' in tabB.getState()).toBe(false);
+  });
+
+  test('send path-level updates, not the entire state', () => {
+    const { channel, tabA } = createTabs();
+
+    tabA.setState({ ...tabA.getState(), theme: 'dark' });
+
+    expect(channel.sent).toHaveLength(1);
+    expect(channel.sent[0].updates).toEqual([{ path: 'theme', value: 'dark' }]);
+  });
+
+  test('send a batch as a single message', () => {
+    const { channel, tabA, tabB } = createTabs();
+
+    tabA.batch(() => {
+      tabA.setPath('theme', 'dark');
+      tabA.setPath('auth', { userId: 9 });
+    });
+
+    expect(channel.sent).toHaveLength(1);
+    expect(tabB.getPath('auth')).toEqual({ userId: 9 });
+  });
+
+  test('only notify the changed paths in the receiving tab', () => {
+    const { tabA, tabB } = createTabs();
+    const themeFn = mock(() => {});
+    const sidebarFn = mock(() => {});
+    tabB.__addSubscriber__(themeFn, 'theme');
+    tabB.__addSubscriber__(sidebarFn, 'sidebarOpen');
+
+    tabA.setPath('theme', 'dark');
+
+    expect(themeFn).toHaveBeenCalledTimes(1);
+    expect(themeFn).toHaveBeenCalledWith('dark');
+    expect(sidebarFn).not.toHaveBeenCalled();
+  });
+
+  test('do not echo received updates back', () => {
+    const { channel, tabA } = createTabs();
+
+    tabA.setPath('theme', 'dark');
+
+    expect(channel.sent).toHaveLength(1);
+  });
+
+  test('do not echo updates received during batchAsync', async () => {
+    const { channel, tabA, tabB } = createTabs();
+    let resolve!: () => void;
+
+    const pending = tabB.batchAsync(async () => {
+      await new Promise<void>(res => {
+        resolve = res;
+      });
+      tabB.setPath('sidebarOpen', true);
+    });
+    tabA.setPath('theme', 'dark');
+    resolve();
+    await pending;
+
+    expect(channel.sent.map(message => message.updates)).toEqual([
+      [{ path: 'theme', value: 'dark' }],
+      [{ path: 'sidebarOpen', value: true }],
+    ]);
+    expect(tabA.getPath('sidebarOpen')).toBe(true);
+  });
+
+  test('only sync the chosen paths', () => {
+    const { channel, tabA, tabB } = createTabs(['auth', 'theme']);
+
+    tabA.setPath('sidebarOpen', true);
+    expect(channel.sent).toHaveLength(0);
+    expect(tabB.getPath('sidebarOpen')).toBe(false);
+
+    tabA.setState({ auth: { userId: 9 }, theme: 'dark', sidebarOpen: false });
+    expect(tabB.getState()).toEqual({
+      auth: { userId: 9 },
+      theme: 'dark',
+      sidebarOpen: false,
+    });
+  });
+
+  test('stop syncing', () => {
+    const { tabA, tabB, stopA } = createTabs();
+
+    stopA();
+    tabA.setPath('theme', 'dark');
+
+    expect(tabB.getPath('theme')).toBe('light');
+  });
+});
@@ -219,6 +219,63 @@ describe('useComputed', () => {
     expect(subscriber).toHaveBeenCalledTimes(1);
   });
 
+  test('do not notify subscribers when a mapped list of objects is deep equal', () => {
+    const store = watcherStore({
+      items: [{ name: 'apple', price: 1 }],
+      filter: 'all',
+    });
+
+    const { result } = renderHook(() =>
+      useComputed(
+        store,
+        state =>
+          state.items.map((item: { name: string }) => ({ name: item.name })),
+        { isEqual: 'deep' }
+      )
+    );
+    const subscriber = mock(() => {});
+
+    result.current.__addSubscriber__(subscriber);
+
+    act(() => {
+      store.setPath('filter', 'fruits');
+      store.setPath('items.0.price', 2);
+    });
+    expect(subscriber).not.toHaveBeenCalled();
+
+    act(() => {
+      store.setPath('items.0.name', 'banana');
+    });
+    expect(result.current.getState()).toEqual([{ name: 'banana' }]);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  test('compare results with a custom isEqual', () => {
+    const store = watcherStore({ count: 1 });
+
+    const { result } = renderHook(() =>
+      useComputed(
+        store,
+        state => ({ parity: state.count % 2, count: state.count }),
+        { isEqual: (prev, next) => prev.parity === next.parity }
+      )
+    );
+    const subscriber = mock(() => {});
+
+    result.current.__addSubscriber__(subscriber);
+
+    act(() => {
+      store.setPath('count', 3);
+    });
+    expect(subscriber).not.toHaveBeenCalled();
+    expect(result.current.getState()).toEqual({ parity: 1, count: 1 });
+
+    act(() => {
+      store.setPath('count', 4);
+    });
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
   test('support primitive dependencies', () => {
     const { result } = renderHook(() => {
       const count = useWatcher(2);
@@ -73,6 +73,24 @@ describe('useWatcherMap', () => {
       expect(result.current.getPath('filter')).toBe('completed');
       expect(result.current.getPath('nextId')).toBe(5);
     });
+
+    test('only notify the paths which changed', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const todoMock = mock(() => {});
+      const todoTextMock = mock(() => {});
+
+      result.current.__addSubscriber__(todoMock, 'todos.1');
+      result.current.__addSubscriber__(todoTextMock, 'todos.1.text');
+
+      const todos = [...initialState.todos];
+      todos[1] = { ...todos[1], completed: true };
+      act(() => {
+        result.current.setState({ ...initialState, todos });
+      });
+
+      expect(todoMock).toHaveBeenCalledTimes(1);
+      expect(todoTextMock).not.toHaveBeenCalled();
+    });
   });
 
   describe('setPath', () => {
@@ -234,11 +252,10 @@ describe('useWatcherMap', () => {
 
       result.current.__addSubscriber__(mockFn, 'todos.1.text');
       result.current.__addSubscriber__(mockFn2, 'filter');
-      // setState replaces the entire state object, so every path watcher will be called
+      // setState only notifies the paths which changed
       result.current.setState({ ...initialState, filter: 'completed' });
 
-      expect(mockFn).toHaveBeenCalledTimes(1);
-      expect(mockFn).toHaveBeenCalledWith('Build a project');
+      expect(mockFn).not.toHaveBeenCalled();
       expect(mockFn2).toHaveBeenCalledTimes(1);
       expect(mockFn2).toHaveBeenCalledWith('completed');
     });
@@ -396,12 +413,11 @@ describe('useWatcherMap', () => {
         result.current.setState(newState);
       });
 
-      // Both watchers should be called because setState notifies based on keys
-      // present in the new state object, and the notification logic checks parent/child.
+      // Only the filter watcher is called, todos keeps the same reference so
+      // setState skips it when comparing the old and new state
       expect(filterMock).toHaveBeenCalledTimes(1);
       expect(filterMock).toHaveBeenCalledWith('completed');
-      expect(todoTextMock).toHaveBeenCalledTimes(1);
-      expect(todoTextMock).toHaveBeenCalledWith('Build a project'); // Value didn't change, but watcher triggered
+      expect(todoTextMock).not.toHaveBeenCalled();
     });
 
     test('only call the function when the watched path changes', () => {
@@ -557,4 +573,263 @@ describe('useWatcherMap', () => {
 
     expect(mockFn).toHaveBeenCalledTimes(1);
   });
+
+  describe('middleware', () => {
+    test('run every write through the middleware', () => {
+      const calls: string[] = [];
+      const { result } = renderHook(() =>
+        useWatcherMap(initialState, {
+          middleware: [
+            (write, next) => {
+              calls.push(`${write.type}:${write.path}`);
+              next(write.nextValue);
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.setPath('filter', 'completed');
+        result.current.clearPath('nextId');
+        result.current.setState(initialState);
+      });
+
+      expect(calls).toEqual([
+        'setPath:filter',
+        'clearPath:nextId',
+        'setState:null',
+      ]);
+    });
+
+    test('change or veto a write', () => {
+      const { result } = renderHook(() =>
+        useWatcherMap(initialState, {
+          middleware: [
+            (write, next) => {
+              if (write.path === 'nextId') {
+                return;
+              }
+              next(write.path === 'filter' ? 'forced' : write.nextValue);
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.setPath('filter', 'completed');
+        result.current.setPath('nextId', 10);
+      });
+
+      expect(result.current.getPath('filter')).toBe('forced');
+      expect(result.current.getPath('nextId')).toBe(3);
+    });
+  });
+
+  describe('transaction', () => {
+    test('restore the state and skip notifications when fn throws', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const mockFn = mock(() => {});
+      result.current.__addSubscriber__(mockFn, 'filter');
+
+      expect(() =>
+        result.current.transaction(() => {
+          result.current.setPath('filter', 'completed');
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      expect(result.current.getPath('filter')).toBe('all');
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test('allow another batch after a batch throws', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+
+      expect(() =>
+        result.current.batch(() => {
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      result.current.batch(() => result.current.setPath('nextId', 10));
+      expect(result.current.getPath('nextId')).toBe(10);
+    });
+  });
+
+  describe('nested and async batches', () => {
+    test('a nested batch joins the outer batch', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const mockFn = mock(() => {});
+      result.current.__addSubscriber__(mockFn);
+
+      const value = result.current.batch(() => {
+        result.current.batch(() => result.current.setPath('nextId', 10));
+        expect(mockFn).not.toHaveBeenCalled();
+        return result.current.getPath('nextId');
+      });
+
+      expect(value).toBe(10);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('batchAsync holds notifications across awaits', async () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const mockFn = mock(() => {});
+      result.current.__addSubscriber__(mockFn, 'filter');
+
+      await result.current.batchAsync(async () => {
+        result.current.setPath('filter', 'completed');
+        await Promise.resolve();
+        result.current.setPath('filter', 'active');
+        expect(mockFn).not.toHaveBeenCalled();
+      });
+
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledWith('active');
+    });
+  });
+
+  describe('wildcard paths', () => {
+    test('usePath returns every matching value with a stable identity', () => {
+      const { result } = renderHook(() => {
+        const watcher = useWatcherMap(initialState);
+        return { watcher, completed: watcher.usePath('todos.*.completed') };
+      });
+      const first = result.current.completed;
+
+      expect(first).toEqual([true, false]);
+
+      act(() => {
+        result.current.watcher.setPath('filter', 'completed');
+      });
+      expect(result.current.completed).toBe(first);
+
+      act(() => {
+        result.current.watcher.setPath('todos.1.completed', true);
+      });
+      expect(result.current.completed).toEqual([true, true]);
+    });
+  });
+
+  describe('array operations', () => {
+    test('movePath notifies only the indices which shifted', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const firstMock = mock(() => {});
+      const secondMock = mock(() => {});
+      const todosMock = mock(() => {});
+
+      result.current.__addSubscriber__(firstMock, 'todos.0.text');
+      result.current.__addSubscriber__(secondMock, 'todos.1.text');
+      result.current.__addSubscriber__(todosMock, 'todos');
+
+      result.current.pushPath('todos', {
+        id: 3,
+        text: 'Ship it',
+        completed: false,
+        tags: [],
+      });
+      expect(todosMock).toHaveBeenCalledTimes(1);
+      expect(firstMock).not.toHaveBeenCalled();
+      expect(secondMock).not.toHaveBeenCalled();
+
+      result.current.movePath('todos', 2, 1);
+      expect(result.current.getPath('todos.1.text')).toBe('Ship it');
+      expect(firstMock).not.toHaveBeenCalled();
+      expect(secondMock).toHaveBeenCalledWith('Ship it');
+    });
+  });
+
+  describe('useSelector', () => {
+    test('re-render only when the selected value changes', () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        const watcher = useWatcherMap(initialState);
+        const total = watcher.useSelector(state => state.todos.length);
+        return { watcher, total };
+      });
+
+      expect(result.current.total).toBe(2);
+
+      act(() => {
+        result.current.watcher.setPath('filter', 'completed');
+      });
+      expect(renders).toBe(1);
+
+      act(() => {
+        result.current.watcher.pushPath('todos', {
+          id: 3,
+          text: 'Ship it',
+          completed: false,
+          tags: [],
+        });
+      });
+      expect(result.current.total).toBe(3);
+      expect(renders).toBe(2);
+    });
+  });
+
+  describe('usePaths', () => {
+    test('re-render only when one of the paths changes', () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        const watcher = useWatcherMap(initialState);
+        const [filter, nextId] = watcher.usePaths(['filter', 'nextId']);
+        return { watcher, filter, nextId };
+      });
+
+      expect(result.current.filter).toBe('all');
+      expect(result.current.nextId).toBe(3);
+
+      act(() => {
+        result.current.watcher.setPath('todos.0.completed', false);
+      });
+      expect(renders).toBe(1);
+
+      act(() => {
+        result.current.watcher.batch(() => {
+          result.current.watcher.setPath('filter', 'active');
+          result.current.watcher.setPath('nextId', 4);
+        });
+      });
+      expect(result.current.filter).toBe('active');
+      expect(result.current.nextId).toBe(4);
+      expect(renders).toBe(2);
+    });
+
+    test('mount and unmount with a repeated path', () => {
+      const { result, unmount } = renderHook(() => {
+        const watcher = useWatcherMap(initialState);
+        return { watcher, values: watcher.usePaths(['filter', 'filter']) };
+      });
+
+      act(() => {
+        result.current.watcher.setPath('filter', 'active');
+      });
+      expect(result.current.values).toEqual(['active', 'active']);
+
+      expect(() => unmount()).not.toThrow();
+    });
+  });
+
+  describe('subscribe', () => {
+    test('call the listener outside of React', () => {
+      const { result } = renderHook(() => useWatcherMap(initialState));
+      const listener = mock(() => {});
+
+      const unsubscribe = result.current.subscribe('filter', listener, {
+        fireImmediately: true,
+      });
+      act(() => {
+        result.current.setPath('filter', 'active');
+      });
+      unsubscribe();
+      act(() => {
+        result.current.setPath('filter', 'all');
+      });
+
+      expect(listener.mock.calls).toEqual([['all'], ['active']]);
+    });
+  });
 });
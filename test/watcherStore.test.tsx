@@ -1,6 +1,29 @@
-import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { describe, test, expect, mock, beforeEach, spyOn } from 'bun:test';
 import { renderHook, act } from '@testing-library/react';
-import { watcherStore } from '../src/watcherStore';
+import { Component, Suspense, type ReactNode } from 'react';
+import { vanillaStore } from '../src/vanillaStore';
+import { bindStore, watcherStore } from '../src/watcherStore';
+
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error: unknown }
+> {
+  state = { error: null as unknown };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error ? null : this.props.children;
+  }
+}
+
+const SuspenseWrapper = ({ children }: { children: ReactNode }) => (
+  <ErrorBoundary>
+    <Suspense fallback={null}>{children}</Suspense>
+  </ErrorBoundary>
+);
 
 describe('watcherStore', () => {
   const initialState = {
@@ -71,6 +94,85 @@ describe('watcherStore', () => {
       expect(store.getPath('filter')).toBe('completed');
       expect(store.getPath('nextId')).toBe(5);
     });
+
+    test('only notify the paths which changed', () => {
+      const store = watcherStore(initialState);
+      const todoMock = mock(() => {});
+      const todoTextMock = mock(() => {});
+      const otherTodoMock = mock(() => {});
+      const todosMock = mock(() => {});
+
+      store.__addSubscriber__(todoMock, 'todos.1');
+      store.__addSubscriber__(todoTextMock, 'todos.1.text');
+      store.__addSubscriber__(otherTodoMock, 'todos.0');
+      store.__addSubscriber__(todosMock, 'todos');
+
+      const todos = [...initialState.todos];
+      todos[1] = { ...todos[1], completed: true };
+      store.setState({ ...initialState, todos });
+
+      expect(todoMock).toHaveBeenCalledTimes(1);
+      expect(todosMock).toHaveBeenCalledTimes(1);
+      expect(todoTextMock).not.toHaveBeenCalled();
+      expect(otherTodoMock).not.toHaveBeenCalled();
+    });
+
+    test('notify the paths of removed keys', () => {
+      const store = watcherStore<Record<string, any>>(initialState);
+      const filterMock = mock(() => {});
+
+      store.__addSubscriber__(filterMock, 'filter');
+
+      const { filter, ...rest } = initialState;
+      store.setState(rest);
+
+      expect(filterMock).toHaveBeenCalledTimes(1);
+      expect(filterMock).toHaveBeenCalledWith(undefined);
+    });
+
+    test('notify a replaced value which is not a plain object', () => {
+      const store = watcherStore({
+        updatedAt: new Date(0),
+        tags: new Set(['home']),
+        user: { name: 'Alice' },
+      });
+      const updatedAtMock = mock(() => {});
+      const tagsMock = mock(() => {});
+      const userMock = mock(() => {});
+
+      store.__addSubscriber__(updatedAtMock, 'updatedAt');
+      store.__addSubscriber__(tagsMock, 'tags');
+      store.__addSubscriber__(userMock, 'user');
+
+      // equal contents, but new references
+      const next = {
+        updatedAt: new Date(0),
+        tags: new Set(['home']),
+        user: { name: 'Alice' },
+      };
+      store.setState(next);
+
+      expect(updatedAtMock).toHaveBeenCalledWith(next.updatedAt);
+      expect(tagsMock).toHaveBeenCalledWith(next.tags);
+      expect(userMock).toHaveBeenCalledWith(next.user);
+    });
+
+    test('notify a changed value as a whole below diffDepth', () => {
+      const store = watcherStore(initialState, { diffDepth: 1 });
+      const todoTextMock = mock(() => {});
+      const filterMock = mock(() => {});
+
+      store.__addSubscriber__(todoTextMock, 'todos.1.text');
+      store.__addSubscriber__(filterMock, 'filter');
+
+      const todos = [...initialState.todos];
+      todos[0] = { ...todos[0], completed: false };
+      store.setState({ ...initialState, todos });
+
+      // todos changed, so every path within it is notified
+      expect(todoTextMock).toHaveBeenCalledTimes(1);
+      expect(filterMock).not.toHaveBeenCalled();
+    });
   });
 
   describe('setPath', () => {
@@ -224,11 +326,10 @@ describe('watcherStore', () => {
 
       store.__addSubscriber__(mockFn, 'todos.1.text');
       store.__addSubscriber__(mockFn2, 'filter');
-      // setState replaces the entire state object, so every path watcher will be called
+      // setState only notifies the paths which changed
       store.setState({ ...initialState, filter: 'completed' });
 
-      expect(mockFn).toHaveBeenCalledTimes(1);
-      expect(mockFn).toHaveBeenCalledWith('Build a project');
+      expect(mockFn).not.toHaveBeenCalled();
       expect(mockFn2).toHaveBeenCalledTimes(1);
       expect(mockFn2).toHaveBeenCalledWith('completed');
     });
@@ -382,12 +483,30 @@ describe('watcherStore', () => {
 
       store.setState(newState);
 
-      // Both watchers should be called because setState notifies based on keys
-      // present in the new state object, and the notification logic checks parent/child.
+      // Only the filter watcher is called, todos keeps the same reference so
+      // setState skips it when comparing the old and new state
       expect(filterMock).toHaveBeenCalledTimes(1);
       expect(filterMock).toHaveBeenCalledWith('completed');
-      expect(todoTextMock).toHaveBeenCalledTimes(1);
-      expect(todoTextMock).toHaveBeenCalledWith('Build a project'); // Value didn't change, but watcher triggered
+      expect(todoTextMock).not.toHaveBeenCalled();
+    });
+
+    test('match paths on whole segments', () => {
+      const store = watcherStore<Record<string, any>>({
+        user: { name: 'Alice' },
+        username: 'alice',
+        todos: Array.from({ length: 11 }, (_, id) => ({ id })),
+      });
+      const userMock = mock(() => {});
+      const todoMock = mock(() => {});
+
+      store.__addSubscriber__(userMock, 'user');
+      store.__addSubscriber__(todoMock, 'todos.1');
+
+      store.setPath('username', 'bob');
+      store.setPath('todos.10.id', 100);
+
+      expect(userMock).not.toHaveBeenCalled();
+      expect(todoMock).not.toHaveBeenCalled();
     });
 
     test('only call the function when the watched path changes', () => {
@@ -736,9 +855,7 @@ describe('watcherStore', () => {
 
       store.onMount(onMountFn);
 
-      const { rerender, unmount } = renderHook(() =>
-        store.usePath('filter')
-      );
+      const { rerender, unmount } = renderHook(() => store.usePath('filter'));
 
       // First render -> first subscriber added -> onMount fires once.
       expect(onMountFn).toHaveBeenCalledTimes(1);
@@ -830,5 +947,920 @@ describe('watcherStore', () => {
       expect(firstOnUnmount).toHaveBeenCalledTimes(1);
       expect(secondOnUnmount).toHaveBeenCalledTimes(1);
     });
+
+    test('keep every onMount fn, and remove one with its disposer', () => {
+      const store = watcherStore(initialState);
+      const firstUnmount = mock(() => {});
+      const first = mock(() => firstUnmount);
+      const second = mock(() => {});
+
+      const disposeFirst = store.onMount(first);
+      store.onMount(second);
+
+      const subscriber = mock(() => {});
+      store.__addSubscriber__(subscriber);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+
+      // disposing while mounted runs the cleanup
+      disposeFirst();
+      expect(firstUnmount).toHaveBeenCalledTimes(1);
+
+      store.__removeSubscriber__(subscriber);
+      store.__addSubscriber__(subscriber);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+      expect(firstUnmount).toHaveBeenCalledTimes(1);
+    });
+
+    test('onPathMount counts subscribers of the path and its descendants', () => {
+      const store = watcherStore(initialState);
+      const onUnmountFn = mock(() => {});
+      const onMountFn = mock(() => onUnmountFn);
+      store.onPathMount('todos', onMountFn);
+
+      // whole-store, sibling and skipMountTracking subscribers don't count
+      store.__addSubscriber__(() => {});
+      store.__addSubscriber__(() => {}, 'filter');
+      store.__addSubscriber__(() => {}, 'todos', { skipMountTracking: true });
+      expect(onMountFn).not.toHaveBeenCalled();
+
+      const { unmount } = renderHook(() => store.usePath('todos.0.text'));
+      const completed = mock(() => {});
+      store.__addSubscriber__(completed, 'todos.*.completed');
+      expect(onMountFn).toHaveBeenCalledTimes(1);
+
+      unmount();
+      expect(onUnmountFn).not.toHaveBeenCalled();
+
+      store.__removeSubscriber__(completed);
+      expect(onUnmountFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('middleware', () => {
+    test('run every write through the middleware in order', () => {
+      const calls: string[] = [];
+      const store = watcherStore(initialState, {
+        middleware: [
+          (write, next) => {
+            calls.push(`first:${write.type}:${write.path}`);
+            next(write.nextValue);
+          },
+          (write, next) => {
+            calls.push(`second:${write.type}:${write.path}`);
+            next(write.nextValue);
+          },
+        ],
+      });
+
+      store.setPath('filter', 'completed');
+      store.clearPath('nextId');
+      store.setState(initialState);
+
+      expect(calls).toEqual([
+        'first:setPath:filter',
+        'second:setPath:filter',
+        'first:clearPath:nextId',
+        'second:clearPath:nextId',
+        'first:setState:null',
+        'second:setState:null',
+      ]);
+    });
+
+    test('receive the previous and next values', () => {
+      const middlewareFn = mock((_write: any, next: (value: any) => void) =>
+        next(_write.nextValue)
+      );
+      const store = watcherStore(initialState, { middleware: [middlewareFn] });
+
+      store.setPath('filter', 'completed');
+
+      expect(middlewareFn.mock.calls[0][0]).toEqual({
+        type: 'setPath',
+        path: 'filter',
+        prevValue: 'all',
+        nextValue: 'completed',
+        state: initialState,
+      });
+    });
+
+    test('change the value before it is written', () => {
+      const store = watcherStore(initialState, {
+        middleware: [
+          (write, next) =>
+            next(
+              typeof write.nextValue === 'string'
+                ? write.nextValue.toUpperCase()
+                : write.nextValue
+            ),
+        ],
+      });
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+
+      store.setPath('filter', 'completed');
+
+      expect(store.getPath('filter')).toBe('COMPLETED');
+      expect(mockFn).toHaveBeenCalledWith('COMPLETED');
+    });
+
+    test('veto a write by not calling next', () => {
+      const store = watcherStore(initialState, {
+        middleware: [
+          (write, next) => {
+            if (write.path === 'nextId' && write.nextValue < 0) {
+              return;
+            }
+            next(write.nextValue);
+          },
+        ],
+      });
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'nextId');
+
+      store.setPath('nextId', -1);
+      store.clearPath('filter');
+
+      expect(store.getPath('nextId')).toBe(3);
+      expect(store.getPath('filter')).toBeUndefined();
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test('a vetoed write is skipped inside a batch', () => {
+      const store = watcherStore(initialState, {
+        middleware: [
+          (write, next) => {
+            if (write.path !== 'filter') {
+              next(write.nextValue);
+            }
+          },
+        ],
+      });
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+
+      store.batch(() => {
+        store.setPath('filter', 'completed');
+        store.setPath('nextId', 10);
+      });
+
+      expect(store.getPath('filter')).toBe('all');
+      expect(store.getPath('nextId')).toBe(10);
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transaction', () => {
+    test('commit and notify once when fn succeeds', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn);
+
+      store.transaction(() => {
+        store.setPath('filter', 'completed');
+        store.setPath('nextId', 10);
+      });
+
+      expect(store.getPath('filter')).toBe('completed');
+      expect(store.getPath('nextId')).toBe(10);
+      expect(mockFn).toHaveBeenCalled();
+    });
+
+    test('restore the state and skip notifications when fn throws', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      const commitFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+      store.onCommit(commitFn);
+
+      expect(() =>
+        store.transaction(() => {
+          store.setPath('filter', 'completed');
+          store.clearPath('nextId');
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      expect(store.getState()).toBe(initialState);
+      expect(mockFn).not.toHaveBeenCalled();
+      expect(commitFn).not.toHaveBeenCalled();
+    });
+
+    test('allow another batch after a failed transaction', () => {
+      const store = watcherStore(initialState);
+
+      expect(() =>
+        store.transaction(() => {
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      store.batch(() => store.setPath('filter', 'completed'));
+      expect(store.getPath('filter')).toBe('completed');
+    });
+  });
+
+  describe('batch errors', () => {
+    test('keep and notify the updates made before the error', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+
+      expect(() =>
+        store.batch(() => {
+          store.setPath('filter', 'completed');
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      expect(store.getPath('filter')).toBe('completed');
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledWith('completed');
+    });
+
+    test('allow another batch after an error', () => {
+      const store = watcherStore(initialState);
+
+      expect(() =>
+        store.batch(() => {
+          throw new Error('failed');
+        })
+      ).toThrow('failed');
+
+      expect(() =>
+        store.batch(() => store.setPath('filter', 'completed'))
+      ).not.toThrow();
+      expect(store.getPath('filter')).toBe('completed');
+    });
+  });
+
+  describe('nested and async batches', () => {
+    test('a nested batch joins the outer batch', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn);
+
+      const setFilter = () =>
+        store.batch(() => {
+          store.setPath('filter', 'completed');
+        });
+
+      store.batch(() => {
+        setFilter();
+        // the inner batch doesn't notify when it returns
+        expect(mockFn).not.toHaveBeenCalled();
+        store.setPath('nextId', 10);
+      });
+
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledWith({
+        ...initialState,
+        filter: 'completed',
+        nextId: 10,
+      });
+    });
+
+    test('tag the changes made in withOrigin, through the batch', () => {
+      const store = watcherStore(initialState);
+      const origin = Symbol('test');
+      const onCommit = mock(() => {});
+      store.onCommit(onCommit);
+
+      const result = store.batch(() => {
+        store.setPath('filter', 'active');
+        return store.withOrigin(origin, () => {
+          store.setPath('nextId', 4);
+          return 'done';
+        });
+      });
+
+      expect(result).toBe('done');
+      expect(onCommit).toHaveBeenCalledTimes(1);
+      expect(onCommit.mock.calls[0][0].changes).toEqual([
+        {
+          type: 'setPath',
+          path: 'filter',
+          prevValue: 'all',
+          nextValue: 'active',
+        },
+        {
+          type: 'setPath',
+          path: 'nextId',
+          prevValue: 3,
+          nextValue: 4,
+          origin,
+        },
+      ]);
+    });
+
+    test('return the value of the callback', () => {
+      const store = watcherStore(initialState);
+
+      const result = store.batch(() => {
+        store.setPath('nextId', 10);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+    });
+
+    test('a failed nested transaction keeps the outer batch updates', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'nextId');
+
+      store.batch(() => {
+        store.setPath('filter', 'completed');
+        try {
+          store.transaction(() => {
+            store.setPath('nextId', 10);
+            throw new Error('failed');
+          });
+        } catch {}
+      });
+
+      expect(store.getPath('filter')).toBe('completed');
+      expect(store.getPath('nextId')).toBe(3);
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test('batchAsync holds notifications across awaits', async () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn);
+
+      const result = await store.batchAsync(async () => {
+        store.setPath('filter', 'completed');
+        await Promise.resolve();
+        store.setPath('nextId', 10);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        expect(mockFn).not.toHaveBeenCalled();
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(store.getPath('nextId')).toBe(10);
+    });
+
+    test('batchAsync notifies and rejects when fn rejects', async () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+
+      await expect(
+        store.batchAsync(async () => {
+          store.setPath('filter', 'completed');
+          throw new Error('failed');
+        })
+      ).rejects.toThrow('failed');
+
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      // the batch is closed, so writes notify straight away again
+      store.setPath('filter', 'active');
+      expect(mockFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('batchAsync releases notifications after the timeout', async () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'filter');
+
+      const pending = store.batchAsync(
+        async () => {
+          store.setPath('filter', 'completed');
+          await new Promise(() => {});
+        },
+        { timeout: 5 }
+      );
+
+      await expect(pending).rejects.toThrow('batchAsync timed out after 5ms');
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('wildcard paths', () => {
+    test('notify * subscribers of a write to any matching key', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'todos.*.completed');
+
+      store.setPath('todos.1.completed', true);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledWith([true, true]);
+
+      // a parent write reaches it too, a sibling doesn't
+      store.setPath('todos', []);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      expect(mockFn).toHaveBeenLastCalledWith([]);
+      store.setPath('filter', 'completed');
+      expect(mockFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('notify ** subscribers of a write at any depth', () => {
+      const store = watcherStore(initialState);
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'todos.**');
+
+      store.setPath('todos.0.tags.1', 'react');
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      store.setPath('nextId', 10);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('a ** inside a pattern only returns the values which match', () => {
+      const store = watcherStore({
+        a: { x: { name: 1, age: 2 }, y: { z: { name: 3 } } },
+      });
+      const mockFn = mock(() => {});
+      store.__addSubscriber__(mockFn, 'a.**.name');
+
+      expect(store.getPath('a.**.name')).toEqual([1, 3]);
+
+      // any write under the prefix notifies, with the same values
+      store.setPath('a.x.age', 5);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledWith([1, 3]);
+    });
+
+    test('getPath returns every matching value', () => {
+      const store = watcherStore(initialState);
+
+      expect(store.getPath('todos.*.text')).toEqual([
+        'Learn React',
+        'Build a project',
+      ]);
+      expect(store.getPath('todos.*.tags.*')).toEqual([
+        'frontend',
+        'learning',
+        'coding',
+        'project',
+      ]);
+    });
+
+    test('usePath keeps the same array until a matching value changes', () => {
+      const store = watcherStore(initialState);
+      const { result } = renderHook(() => store.usePath('todos.*.completed'));
+      const first = result.current;
+
+      expect(first).toEqual([true, false]);
+
+      act(() => {
+        store.setPath('todos.0.text', 'Learn React 19');
+      });
+      expect(result.current).toBe(first);
+
+      act(() => {
+        store.setPath('todos.1.completed', true);
+      });
+      expect(result.current).toEqual([true, true]);
+      expect(result.current).not.toBe(first);
+    });
+  });
+
+  describe('array operations', () => {
+    const listState = { items: ['a', 'b', 'c', 'd'], other: 1 };
+
+    const watchItems = (store: ReturnType<typeof watcherStore<any>>) => {
+      const mocks = {
+        items: mock(() => {}),
+        length: mock(() => {}),
+        0: mock(() => {}),
+        1: mock(() => {}),
+        2: mock(() => {}),
+        3: mock(() => {}),
+        4: mock(() => {}),
+      };
+      for (const [key, fn] of Object.entries(mocks)) {
+        store.__addSubscriber__(fn, key === 'items' ? key : `items.${key}`);
+      }
+      return mocks;
+    };
+
+    test('pushPath appends and notifies only the new index', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+
+      store.pushPath('items', 'e');
+
+      expect(store.getPath('items')).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(mocks.items).toHaveBeenCalledTimes(1);
+      expect(mocks.length).toHaveBeenCalledWith(5);
+      expect(mocks[4]).toHaveBeenCalledWith('e');
+      expect(mocks[0]).not.toHaveBeenCalled();
+      expect(mocks[3]).not.toHaveBeenCalled();
+    });
+
+    test('insertAtPath notifies the indices which shifted', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+
+      store.insertAtPath('items', 2, 'x');
+
+      expect(store.getPath('items')).toEqual(['a', 'b', 'x', 'c', 'd']);
+      expect(mocks[0]).not.toHaveBeenCalled();
+      expect(mocks[1]).not.toHaveBeenCalled();
+      expect(mocks[2]).toHaveBeenCalledWith('x');
+      expect(mocks[3]).toHaveBeenCalledWith('c');
+      expect(mocks[4]).toHaveBeenCalledWith('d');
+    });
+
+    test('removeAtPath notifies the indices which shifted', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+
+      store.removeAtPath('items', 1, 2);
+
+      expect(store.getPath('items')).toEqual(['a', 'd']);
+      expect(mocks[0]).not.toHaveBeenCalled();
+      expect(mocks[1]).toHaveBeenCalledWith('d');
+      expect(mocks[2]).toHaveBeenCalledWith(undefined);
+      expect(mocks[3]).toHaveBeenCalledWith(undefined);
+      expect(mocks.length).toHaveBeenCalledWith(2);
+    });
+
+    test('movePath notifies only the indices between from and to', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+
+      store.movePath('items', 1, 2);
+
+      expect(store.getPath('items')).toEqual(['a', 'c', 'b', 'd']);
+      expect(mocks.items).toHaveBeenCalledTimes(1);
+      expect(mocks[1]).toHaveBeenCalledWith('c');
+      expect(mocks[2]).toHaveBeenCalledWith('b');
+      expect(mocks[0]).not.toHaveBeenCalled();
+      expect(mocks[3]).not.toHaveBeenCalled();
+      expect(mocks.length).not.toHaveBeenCalled();
+
+      expect(() => store.movePath('items', 0, 4)).toThrow(
+        'Cannot move "items" from 0 to 4, the index is out of bounds'
+      );
+    });
+
+    test('splicePath removes and inserts items', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+
+      store.splicePath('items', 1, 1, 'x');
+
+      expect(store.getPath('items')).toEqual(['a', 'x', 'c', 'd']);
+      expect(mocks[1]).toHaveBeenCalledWith('x');
+      expect(mocks[2]).not.toHaveBeenCalled();
+      expect(mocks.length).not.toHaveBeenCalled();
+    });
+
+    test('do nothing when the array is unchanged', () => {
+      const store = watcherStore(listState);
+      const mocks = watchItems(store);
+      const commitFn = mock(() => {});
+      store.onCommit(commitFn);
+
+      store.removeAtPath('items', 10);
+      store.splicePath('items', 0, 0);
+
+      expect(store.getPath('items')).toBe(listState.items);
+      expect(mocks.items).not.toHaveBeenCalled();
+      expect(commitFn).not.toHaveBeenCalled();
+    });
+
+    test('create a missing array, and throw for a value which is not one', () => {
+      const store = watcherStore<Record<string, any>>(listState);
+
+      store.pushPath('tags', 'new');
+      expect(store.getPath('tags')).toEqual(['new']);
+
+      expect(() => store.pushPath('other', 2)).toThrow(
+        'Cannot pushPath "other", it is not an array'
+      );
+    });
+
+    test('go through middleware and commit as a setPath of the array', () => {
+      const seen: any[] = [];
+      const store = watcherStore(listState, {
+        middleware: [
+          (write, next) => {
+            seen.push([write.type, write.path, write.nextValue]);
+            next(write.nextValue);
+          },
+        ],
+      });
+      const commitFn = mock(() => {});
+      store.onCommit(commitFn);
+
+      store.pushPath('items', 'e');
+
+      expect(seen).toEqual([['setPath', 'items', ['a', 'b', 'c', 'd', 'e']]]);
+      expect(commitFn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          changes: [
+            {
+              type: 'setPath',
+              path: 'items',
+              prevValue: listState.items,
+              nextValue: ['a', 'b', 'c', 'd', 'e'],
+            },
+          ],
+        })
+      );
+    });
+  });
+
+  describe('useSelector', () => {
+    test('re-render only when the selected value changes', () => {
+      const store = watcherStore(initialState);
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return store.useSelector(state =>
+          state.todos.filter(todo => todo.completed).map(todo => todo.text)
+        );
+      });
+      const first = result.current;
+
+      expect(first).toEqual(['Learn React']);
+      expect(renders).toBe(1);
+
+      // a new but shallow equal array keeps the previous value
+      act(() => {
+        store.setPath('filter', 'completed');
+      });
+      expect(result.current).toBe(first);
+      expect(renders).toBe(1);
+
+      act(() => {
+        store.setPath('todos.1.completed', true);
+      });
+      expect(result.current).toEqual(['Learn React', 'Build a project']);
+      expect(renders).toBe(2);
+    });
+
+    test('use a custom isEqual', () => {
+      const store = watcherStore(initialState);
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return store.useSelector(
+          state => ({ count: state.todos.length, nextId: state.nextId }),
+          (prev, next) => prev.count === next.count
+        );
+      });
+
+      act(() => {
+        store.setPath('nextId', 10);
+      });
+      expect(result.current).toEqual({ count: 2, nextId: 3 });
+      expect(renders).toBe(1);
+    });
+
+    test('re-run the selector when it changes between renders', () => {
+      const store = watcherStore(initialState);
+      const { result, rerender } = renderHook(
+        ({ index }) => store.useSelector(state => state.todos[index].text),
+        { initialProps: { index: 0 } }
+      );
+
+      expect(result.current).toBe('Learn React');
+      rerender({ index: 1 });
+      expect(result.current).toBe('Build a project');
+    });
+  });
+
+  describe('usePaths', () => {
+    test('return a tuple of values, which keeps its identity', () => {
+      const store = watcherStore(initialState);
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return store.usePaths(['filter', 'nextId', 'todos.*.completed']);
+      });
+      const first = result.current;
+
+      expect(first).toEqual(['all', 3, [true, false]]);
+
+      act(() => {
+        store.setPath('todos.0.text', 'Learn TypeScript');
+      });
+      expect(result.current).toBe(first);
+      expect(renders).toBe(1);
+
+      act(() => {
+        store.setPath('nextId', 4);
+      });
+      expect(result.current).toEqual(['all', 4, [true, false]]);
+      expect(result.current[2]).toBe(first[2]);
+      expect(renders).toBe(2);
+    });
+
+    test('return an object of values', () => {
+      const store = watcherStore(initialState);
+      const { result } = renderHook(() =>
+        store.usePaths({ filter: 'filter', first: 'todos.0.text' })
+      );
+
+      expect(result.current).toEqual({
+        filter: 'all',
+        first: 'Learn React',
+      });
+
+      act(() => {
+        store.setPath('filter', 'active');
+      });
+      expect(result.current.filter).toBe('active');
+    });
+
+    test('add one subscriber, called once per write', () => {
+      const store = watcherStore(initialState);
+      const onMountFn = mock(() => {});
+      store.onMount(onMountFn);
+      let renders = 0;
+      const { unmount } = renderHook(() => {
+        renders++;
+        return store.usePaths(['filter', 'nextId']);
+      });
+
+      expect(onMountFn).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        store.setState({ ...initialState, filter: 'active', nextId: 4 });
+      });
+      expect(renders).toBe(2);
+
+      unmount();
+      act(() => {
+        store.setPath('filter', 'all');
+      });
+      expect(renders).toBe(2);
+    });
+
+    test('mount and unmount with a repeated path', () => {
+      const store = watcherStore(initialState);
+      const { result, unmount } = renderHook(() =>
+        store.usePaths({ a: 'filter', b: 'filter' })
+      );
+
+      expect(result.current).toEqual({ a: 'all', b: 'all' });
+
+      act(() => {
+        store.setPath('filter', 'active');
+      });
+      expect(result.current).toEqual({ a: 'active', b: 'active' });
+
+      expect(() => unmount()).not.toThrow();
+    });
+  });
+
+  describe('usePathSuspense', () => {
+    test('suspend until the promise at the path resolves', async () => {
+      let resolve!: (name: string) => void;
+      const store = watcherStore<{ user: Promise<string> | string }>({
+        user: new Promise(res => {
+          resolve = res;
+        }),
+      });
+
+      const { result } = renderHook(() => store.usePathSuspense('user'), {
+        wrapper: SuspenseWrapper,
+      });
+      expect(result.current).toBeNull();
+
+      await act(async () => {
+        resolve('Alice');
+      });
+      expect(result.current).toBe('Alice');
+
+      // a plain value doesn't suspend
+      act(() => {
+        store.setPath('user', 'Bob');
+      });
+      expect(result.current).toBe('Bob');
+    });
+
+    test('suspend again when setState replaces the promise', async () => {
+      const store = watcherStore<{ user: Promise<string> | string }>({
+        user: Promise.resolve('Alice'),
+      });
+
+      const { result } = renderHook(() => store.usePathSuspense('user'), {
+        wrapper: SuspenseWrapper,
+      });
+      await act(async () => {});
+      expect(result.current).toBe('Alice');
+
+      await act(async () => {
+        store.setState({ user: Promise.resolve('Bob') });
+      });
+      expect(result.current).toBe('Bob');
+    });
+
+    test('throw a rejection to the error boundary', async () => {
+      const error = new Error('Not found');
+      let reject!: (error: unknown) => void;
+      const store = watcherStore({
+        user: new Promise<string>((_, rej) => {
+          reject = rej;
+        }),
+      });
+      let caught: unknown;
+      // React logs errors caught by a boundary
+      spyOn(console, 'error').mockImplementation(() => {});
+
+      renderHook(
+        () => {
+          try {
+            return store.usePathSuspense('user');
+          } catch (thrown) {
+            caught = thrown;
+            throw thrown;
+          }
+        },
+        { wrapper: SuspenseWrapper }
+      );
+      await act(async () => {
+        reject(error);
+      });
+
+      expect(caught).toBe(error);
+    });
+  });
+
+  describe('subscribe', () => {
+    test('call the listener when the path changes', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+
+      const unsubscribe = store.subscribe('todos.0.completed', listener);
+      store.setPath('filter', 'active');
+      store.setPath('todos.0.completed', false);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(false);
+
+      unsubscribe();
+      store.setPath('todos.0.completed', true);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test('subscribe one listener to several paths', () => {
+      const store = watcherStore(initialState);
+      const listener = mock(() => {});
+
+      const unsubscribeFilter = store.subscribe('filter', listener);
+      store.subscribe('nextId', listener);
+      store.subscribe(null, listener);
+
+      store.setPath('filter', 'active');
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith('active');
+      expect(listener).toHaveBeenCalledWith(store.getState());
+
+      unsubscribeFilter();
+      store.setPath('nextId', 4);
+      store.setPath('filter', 'all');
+      expect(listener).toHaveBeenCalledTimes(5);
+    });
+
+    test('fire immediately and unsubscribe when the signal aborts', () => {
+      const store = watcherStore(initialState);
+      const onMountFn = mock(() => {});
+      store.onMount(onMountFn);
+      const controller = new AbortController();
+      const listener = mock(() => {});
+
+      store.subscribe('filter', listener, {
+        fireImmediately: true,
+        signal: controller.signal,
+      });
+      expect(listener).toHaveBeenCalledWith('all');
+      expect(onMountFn).toHaveBeenCalledTimes(1);
+
+      controller.abort();
+      store.setPath('filter', 'active');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      // an aborted signal doesn't subscribe at all
+      store.subscribe('filter', listener, { signal: controller.signal });
+      store.setPath('filter', 'all');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bindStore', () => {
+    test('share state and subscribers with the vanilla store', () => {
+      const vanilla = vanillaStore(initialState);
+      const onMountFn = mock(() => {});
+      vanilla.onMount(onMountFn);
+      const store = bindStore(vanilla);
+
+      const { result } = renderHook(() => store.usePath('filter'));
+      expect(onMountFn).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        vanilla.setPath('filter', 'active');
+      });
+      expect(result.current).toBe('active');
+      expect(store.getState()).toBe(vanilla.getState());
+    });
   });
 });